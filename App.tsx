@@ -1,156 +1,400 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
-import type { Player, DraftBoardData, DataSource } from './types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import type { Player, AvailablePlayer, DataSource, ConsensusSettings, DraftFormat, Keeper, Team, DraftMode, BotStrategy, BoardRanking, LeagueSettings, DraftSnapshot, DraftActionKind, RankingSnapshot, SavedDraft } from './types';
 import Controls from './components/Controls';
 import DraftBoard from './components/DraftBoard';
-import { SLEEPER_PLAYER_LIST, YAHOO_PLAYER_LIST, ESPN_PLAYER_LIST } from './constants';
+import MyTeamPanel from './components/MyTeamPanel';
+import UndraftedPlayers from './components/UndraftedPlayers';
+import RankingComparison from './components/RankingComparison';
+import TeamSummaries from './components/TeamSummaries';
+import DraftAlerts from './components/DraftAlerts';
+import OrphanedPicks from './components/OrphanedPicks';
+import DraftTimeline from './components/DraftTimeline';
+import PlayerSearchPalette from './components/PlayerSearchPalette';
+import AvailablePlayersPanel from './components/AvailablePlayersPanel';
+import PlayerActionSheet from './components/PlayerActionSheet';
+import QueuePanel from './components/QueuePanel';
+import type { DraftLibraryControls } from './components/DraftSwitcher';
+import { useDraftHistory } from './hooks/useDraftHistory';
+import { useInputMode, InputMode } from './hooks/useInputMode';
+import { SLEEPER_PLAYER_LIST, YAHOO_PLAYER_LIST, ESPN_PLAYER_LIST, CONSENSUS_SOURCES } from './constants';
+import { createDraftOrder, generateDraftBoard, getKeeperPicks, getNextOpenPick, getOwnedPicks, getPickOwner, getTotalPicks } from './utils/draftOrder';
+import { detectPositionRuns, getScarcityAlerts } from './utils/draftAlerts';
+import { getValueOverReplacement, rankByValue } from './utils/vbd';
+import { buildConsensus, formatConsensusText, indexConsensusById } from './utils/consensus';
+import { createPlayerIdResolver, rekeyList, rekeyPicks, rekeyRecord } from './utils/playerIdentity';
+import { getOrphanedPicks, withoutOrphans } from './utils/picks';
+import { diffRankings, RankingOption } from './utils/rankingDiff';
+import { parsePlayerText, toggleHighlightLine } from './utils/parser';
+import { makeBotPick } from './utils/mockDraft';
+import { ensureTeams, getTeamName } from './utils/teams';
+import {
+  DraftLibrary,
+  createDraft,
+  createRankingSnapshot,
+  loadDraft,
+  loadDraftLibrary,
+  removeDraft,
+  saveDraft,
+  saveDraftLibrary,
+  toSummary,
+} from './utils/draftLibrary';
+import { buildDraftExport, getDraftExportFileName, parseDraftExport } from './utils/draftExport';
 
-const parsePlayerText = (text: string): { players: Player[]; error: string | null } => {
-  const players: Player[] = [];
-  const lines = text.trim().split('\n');
-  
-  for (const line of lines) {
-    if (!line.trim()) continue;
-    
-    let processedLine = line.trim();
-    const isHighlighted = processedLine.endsWith('*');
-    if (isHighlighted) {
-      processedLine = processedLine.slice(0, -1).trim();
-    }
-    
-    const parts = processedLine.split(/\s+/);
-    
-    if (parts.length < 3) {
-      return { players: [], error: `Malformed line detected. Each line must have rank, name, and position. Problem line: "${line}"` };
-    }
-    
-    const rank = parseInt(parts[0], 10);
-    const position = parts[parts.length - 1];
-    const name = parts.slice(1, -1).join(' ');
+// Delay between bot picks so the mock draft visibly unfolds on the board.
+const BOT_PICK_DELAY_MS = 400;
 
-    if (isNaN(rank) || !name || !position) {
-      return { players: [], error: `Could not parse line. Check format. Problem line: "${line}"` };
-    }
-
-    players.push({ rank, name, position, isHighlighted });
+// The board controls to show for how the user is currently interacting with the page.
+const getControlHints = (mode: InputMode, isRecordingPicks: boolean): [string, string][] => {
+  const draftHint = isRecordingPicks ? 'Record a player as taken with the next pick' : 'Draft a player';
+  const draftBeforeHint = isRecordingPicks ? 'Lock in the projection up to this pick' : 'Draft all players before';
+  switch (mode) {
+    case 'touch':
+      return [
+        ['Tap', draftHint],
+        ['Long-press', 'Highlight, draft all before, add a note or queue'],
+        ['Two-finger swipe left', 'Undo'],
+      ];
+    case 'keyboard':
+      return [
+        ['Arrows', 'Move between picks'],
+        ['Enter', draftHint],
+        ['D', draftBeforeHint],
+        ['H', 'Highlight a player'],
+        ['/ or Ctrl+K', 'Find and draft a player by name'],
+      ];
+    default:
+      return [
+        ['Left Click', draftHint],
+        ['Middle or Shift+Click', draftBeforeHint],
+        ['Right Click', 'Highlight a player'],
+      ];
   }
-
-  return { players, error: null };
 };
 
-const generateSnakeDraft = (players: Player[], numTeams: number): DraftBoardData => {
-  if (!players.length || numTeams <= 0) {
-    return {};
-  }
-
-  const rounds: (Player | null)[][] = [];
-  const numPicks = players.length;
-  const numRounds = Math.ceil(numPicks / numTeams);
-  
-  for(let r = 0; r < numRounds; r++) {
-    rounds.push(new Array(numTeams).fill(null));
-  }
-  
-  players.forEach((player, index) => {
-    const round = Math.floor(index / numTeams);
-    const pickInRound = index % numTeams;
-    const isForwardRound = round % 2 === 0;
-
-    const teamIndex = isForwardRound ? pickInRound : numTeams - 1 - pickInRound;
-    
-    if (rounds[round] && teamIndex < numTeams) {
-      rounds[round][teamIndex] = player;
-    }
+// Builds the projected pick order for a live draft. Picks that were actually made
+// stay locked to their overall pick, and every undrafted player re-flows into the
+// remaining open picks in ranking order.
+// A pick of a duplicated player takes the first listing; later duplicates stay in the pool.
+const applyLivePicks = (players: Player[], livePicks: Map<number, string>): Player[] => {
+  const playersById = new Map<string, Player>();
+  players.forEach(p => {
+    if (!playersById.has(p.id)) playersById.set(p.id, p);
   });
+  const pickOrder: (Player | null)[] = new Array(players.length).fill(null);
+  const placed = new Set<Player>();
 
-  const board: DraftBoardData = {};
-  for (let t = 0; t < numTeams; t++) {
-    const teamKey = `Team ${t + 1}`;
-    board[teamKey] = [];
-    for (let r = 0; r < numRounds; r++) {
-        board[teamKey].push(rounds[r][t]);
+  livePicks.forEach((playerId, overallPick) => {
+    const player = playersById.get(playerId);
+    if (player && overallPick >= 1 && overallPick <= players.length && !placed.has(player)) {
+      pickOrder[overallPick - 1] = player;
+      placed.add(player);
     }
-  }
+  });
 
-  return board;
+  const remainingPlayers = players.filter(p => !placed.has(p));
+  let nextAvailable = 0;
+  return pickOrder.map(slot => slot ?? remainingPlayers[nextAvailable++]);
 };
 
+// The draft data a workspace owns; the library owns the draft's identity and name.
+type DraftData = Omit<SavedDraft, 'id' | 'name' | 'createdAt'>;
 
-const App: React.FC = () => {
-  const [numTeams, setNumTeams] = useState<number>(() => {
-    const saved = localStorage.getItem('numTeams');
-    if (saved) {
-      const parsed = parseInt(saved, 10);
-      if (!isNaN(parsed) && [8, 10, 12, 14].includes(parsed)) {
-        return parsed;
-      }
-    }
-    return 10;
-  });
-  const [error, setError] = useState<string | null>(null);
+interface DraftWorkspaceProps {
+  draft: SavedDraft;
+  onSave: (data: DraftData) => void;
+  draftLibrary: DraftLibraryControls;
+}
+
+const DraftWorkspace: React.FC<DraftWorkspaceProps> = ({ draft, onSave, draftLibrary }) => {
+  const [numTeams, setNumTeams] = useState<number>(draft.numTeams);
+  const [numRounds, setNumRounds] = useState<number>(draft.numRounds);
+  const [teams, setTeams] = useState<Team[]>(draft.teams);
+
+  // The teams in the league, in draft slot order.
+  const leagueTeams = useMemo(() => teams.slice(0, numTeams), [teams, numTeams]);
+
+  const [draftFormat, setDraftFormat] = useState<DraftFormat>(draft.draftFormat);
+  const [customDraftOrder, setCustomDraftOrder] = useState<string>(draft.customDraftOrder);
+
+  // Traded picks map an overall pick to the 0-based index of the team that now owns it.
+  const [tradedPicks, setTradedPicks] = useState<Map<number, number>>(() => new Map(draft.tradedPicks));
+  const [keepers, setKeepers] = useState<Keeper[]>(draft.keepers);
+
+  // The single source of truth for who picks when.
+  const order = useMemo(() => {
+    return createDraftOrder(numTeams, numRounds, draftFormat, customDraftOrder, tradedPicks);
+  }, [numTeams, numRounds, draftFormat, customDraftOrder, tradedPicks]);
+
+  // The 0-based team index of the user's own draft slot, if one has been chosen.
+  const [mySeat, setMySeat] = useState<number | null>(draft.mySeat);
   
-  const [pickedPlayers, setPickedPlayers] = useState<Set<number>>(() => {
-    const saved = localStorage.getItem('draftedPlayerRanks');
-    if (saved) {
-      try {
-        const ranks = JSON.parse(saved);
-        return new Set(ranks);
-      } catch (e) {
-        console.error("Failed to parse drafted players from localStorage", e);
-        return new Set();
-      }
-    }
-    return new Set();
-  });
+  // Players greyed out as drafted in projection mode, by ID.
+  const [pickedPlayers, setPickedPlayers] = useState<Set<string>>(() => new Set(draft.pickedPlayers));
+
+  const [draftMode, setDraftMode] = useState<DraftMode>(draft.draftMode);
+
+  // Live and mock draft picks, keyed by overall pick number with the drafted player's ID as the value.
+  const [livePicks, setLivePicks] = useState<Map<number, string>>(() => new Map(draft.livePicks));
+  const [mockPicks, setMockPicks] = useState<Map<number, string>>(() => new Map(draft.mockPicks));
+  const [pickedPlayerNames, setPickedPlayerNames] = useState<Record<string, string>>(draft.pickedPlayerNames);
+
+  const [leagueSettings, setLeagueSettings] = useState<LeagueSettings>(draft.leagueSettings);
+  const [playerNotes, setPlayerNotes] = useState<Record<string, string>>(draft.playerNotes);
+  const [queue, setQueue] = useState<string[]>(draft.queue);
+  const [autoPickQueue, setAutoPickQueue] = useState<boolean>(draft.autoPickQueue);
+  const [playerAliases, setPlayerAliases] = useState<Record<string, string>>(draft.playerAliases);
+  const [rankingSnapshots, setRankingSnapshots] = useState<RankingSnapshot[]>(draft.rankingSnapshots);
+  // Picks already auto-picked once, so undoing an auto-pick doesn't immediately redo it.
+  const autoPickedPicks = useRef<Set<number>>(new Set());
+
+  const [botStrategy, setBotStrategy] = useState<BotStrategy>(draft.botStrategy);
+  const [boardRanking, setBoardRanking] = useState<BoardRanking>(draft.boardRanking);
   
-  const [rawText, setRawText] = useState<string>(() => {
-    return localStorage.getItem('customPlayerRankings') || SLEEPER_PLAYER_LIST;
-  });
+  const [rawText, setRawText] = useState<string>(draft.rawText);
+
+  const [customRankings, setCustomRankings] = useState<string>(draft.customRankings);
+
+  const [dataSource, setDataSource] = useState<DataSource>(draft.dataSource);
+  const [consensusSettings, setConsensusSettings] = useState<ConsensusSettings>(draft.consensus);
 
-  const [dataSource, setDataSource] = useState<DataSource>(() => {
-    return localStorage.getItem('customPlayerRankings') ? 'Custom' : 'Sleeper PPR';
+  const applySnapshot = (snapshot: DraftSnapshot) => {
+    setPickedPlayers(snapshot.pickedPlayers);
+    setLivePicks(snapshot.livePicks);
+    setMockPicks(snapshot.mockPicks);
+  };
+
+  // Read out by screen readers after every pick, highlight, undo and redo.
+  const [announcement, setAnnouncement] = useState('');
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [actionSheetPick, setActionSheetPick] = useState<number | null>(null);
+  const inputMode = useInputMode();
+
+  const history = useDraftHistory((action, direction) => {
+    setAnnouncement(`${direction === 'undo' ? 'Undid' : 'Redid'}: ${action.label}`);
+    const { highlightPlayerId } = action;
+    if (highlightPlayerId !== undefined) {
+      setRawText(prevText => {
+        const player = parsePlayerText(prevText, resolvePlayerId).players.find(p => p.id === highlightPlayerId);
+        return player ? toggleHighlightLine(prevText, player.lineIndex) : prevText;
+      });
+      setDataSource('Custom');
+      return;
+    }
+    const snapshot = direction === 'undo' ? action.before : action.after;
+    if (snapshot) {
+      applySnapshot(snapshot);
+    }
   });
 
   useEffect(() => {
     if (dataSource === 'Custom') {
-      localStorage.setItem('customPlayerRankings', rawText);
+      setCustomRankings(rawText);
     }
   }, [rawText, dataSource]);
-  
+
   useEffect(() => {
-    localStorage.setItem('draftedPlayerRanks', JSON.stringify(Array.from(pickedPlayers)));
-  }, [pickedPlayers]);
+    onSave({
+      rawText,
+      customRankings,
+      dataSource,
+      consensus: consensusSettings,
+      numTeams,
+      numRounds,
+      teams,
+      draftFormat,
+      customDraftOrder,
+      tradedPicks: Array.from(tradedPicks.entries()),
+      keepers,
+      mySeat,
+      draftMode,
+      botStrategy,
+      boardRanking,
+      leagueSettings,
+      pickedPlayers: Array.from(pickedPlayers),
+      livePicks: Array.from(livePicks.entries()),
+      mockPicks: Array.from(mockPicks.entries()),
+      pickedPlayerNames,
+      playerNotes,
+      queue,
+      autoPickQueue,
+      playerAliases,
+      rankingSnapshots,
+    });
+  }, [rawText, customRankings, dataSource, consensusSettings, numTeams, numRounds, teams, draftFormat, customDraftOrder, tradedPicks, keepers, mySeat, draftMode, botStrategy, boardRanking, leagueSettings, pickedPlayers, livePicks, mockPicks, pickedPlayerNames, playerNotes, queue, autoPickQueue, playerAliases, rankingSnapshots]);
 
+  const handleNumTeamsChange = (newNumTeams: number) => {
+    setNumTeams(newNumTeams);
+    setTeams(current => ensureTeams(current, newNumTeams));
+  };
+
+  const handleTeamChange = (team: Team) => {
+    setTeams(current => current.map(t => (t.id === team.id ? team : t)));
+  };
+
+  // Drop the seat if the league shrinks past it.
   useEffect(() => {
-    localStorage.setItem('numTeams', String(numTeams));
-  }, [numTeams]);
+    if (mySeat !== null && mySeat >= numTeams) {
+      setMySeat(null);
+    }
+  }, [mySeat, numTeams]);
+
+  const resolvePlayerId = useMemo(() => createPlayerIdResolver(playerAliases), [playerAliases]);
+
+  // Memoize the parsed players and any problems found in the rankings text
+  const { players, issues: parseIssues } = useMemo(() => parsePlayerText(rawText, resolvePlayerId), [rawText, resolvePlayerId]);
 
-  // Memoize the parsed players and any parsing error
-  const { players, error: parseError } = useMemo(() => parsePlayerText(rawText), [rawText]);
+  // The built-in lists merged into one ranking. Disputed players are flagged on the board
+  // whichever list it shows, so they are looked up by the ID of every spelling the sources use.
+  const consensusSources = useMemo(() => {
+    return CONSENSUS_SOURCES.map(({ source, text }) => ({ name: source, players: parsePlayerText(text, resolvePlayerId).players }));
+  }, [resolvePlayerId]);
+  const consensusPlayers = useMemo(() => buildConsensus(consensusSources, consensusSettings), [consensusSources, consensusSettings]);
+  const consensusById = useMemo(() => indexConsensusById(consensusPlayers), [consensusPlayers]);
 
-  // Create a stable identifier for the list of players, ignoring highlights.
-  // This prevents resetting the draft when a player is only highlighted.
-  const playerListIdentifier = useMemo(() => {
-    return players.map(p => `${p.rank}|${p.name}`).join(',');
-  }, [players]);
+  // Any two rankings texts can be compared: the board, the built-in and custom lists, and saved snapshots.
+  const [compareFromId, setCompareFromId] = useState<string>(CONSENSUS_SOURCES[0].source);
+  const [compareToId, setCompareToId] = useState('current');
+  const [showRankChanges, setShowRankChanges] = useState(false);
+  const comparisonOptions = useMemo((): RankingOption[] => [
+    { id: 'current', label: 'Current board', text: rawText },
+    ...CONSENSUS_SOURCES.map(({ source, text }) => ({ id: source, label: source, text })),
+    { id: 'Consensus', label: 'Consensus', text: formatConsensusText(consensusPlayers) },
+    { id: 'Custom', label: 'Custom', text: customRankings },
+    ...rankingSnapshots.map(snapshot => ({ id: snapshot.id, label: `Snapshot: ${snapshot.name}`, text: snapshot.text })),
+  ], [rawText, consensusPlayers, customRankings, rankingSnapshots]);
 
-  // Update the error state when the parsing result changes
+  const rankingChanges = useMemo(() => {
+    const from = comparisonOptions.find(option => option.id === compareFromId);
+    const to = comparisonOptions.find(option => option.id === compareToId);
+    if (!from || !to || from.id === to.id) {
+      return [];
+    }
+    return diffRankings(parsePlayerText(from.text, resolvePlayerId).players, parsePlayerText(to.text, resolvePlayerId).players);
+  }, [comparisonOptions, compareFromId, compareToId, resolvePlayerId]);
+  // The board shows its own players, so its arrows always measure from the "From" rankings to
+  // the board, whatever the table compares them with.
+  const rankChangesById = useMemo(() => {
+    const from = comparisonOptions.find(option => option.id === compareFromId);
+    if (!showRankChanges || !from || from.id === 'current') {
+      return null;
+    }
+    const changes = diffRankings(parsePlayerText(from.text, resolvePlayerId).players, players);
+    return new Map(changes.map(change => [change.playerId, change]));
+  }, [showRankChanges, comparisonOptions, compareFromId, resolvePlayerId, players]);
+
+  const handleSaveRankingSnapshot = (name: string) => {
+    setRankingSnapshots(prev => [...prev, createRankingSnapshot(name, rawText)]);
+  };
+
+  // Comparisons against a deleted snapshot fall back to the board.
+  const handleDeleteRankingSnapshot = (id: string) => {
+    setRankingSnapshots(prev => prev.filter(snapshot => snapshot.id !== id));
+    if (compareFromId === id) setCompareFromId('current');
+    if (compareToId === id) setCompareToId('current');
+  };
+
+  // Value over replacement depends on the league, so it is recomputed when the teams or roster change.
+  const valueOverReplacement = useMemo(() => {
+    return getValueOverReplacement(players, leagueSettings, numTeams);
+  }, [players, leagueSettings, numTeams]);
+  const hasProjections = valueOverReplacement.size > 0;
+
+  // The order undrafted players flow onto the board in.
+  const rankedPlayers = useMemo(() => {
+    return boardRanking === 'VBD' && hasProjections ? rankByValue(players, valueOverReplacement) : players;
+  }, [boardRanking, hasProjections, players, valueOverReplacement]);
+
+  // Live and mock drafts both record real picks; projection mode only greys out players.
+  const isRecordingPicks = draftMode !== 'Projection';
+  const recordedPicks = draftMode === 'Mock' ? mockPicks : livePicks;
+  const recordedPicksKey = draftMode === 'Mock' ? 'mockPicks' : 'livePicks';
+
+  // Picks and keepers are stored by player ID, so editing, reordering or inserting lines
+  // in the rankings keeps them. A pick whose player is no longer listed is orphaned: it is
+  // left out of the board but kept, so it comes back if the player does, e.g. once a
+  // misspelled name is fixed.
+  const playerIds = useMemo(() => new Set(players.map(p => p.id)), [players]);
+  const orphanedPicks = useMemo(() => getOrphanedPicks(playerIds, keepers, isRecordingPicks ? recordedPicks : null, pickedPlayers), [playerIds, keepers, isRecordingPicks, recordedPicks, pickedPlayers]);
+
+  // Remembers how every picked or kept player is spelled while they are listed, so an orphaned
+  // pick is reported by the name the user typed rather than its ID.
   useEffect(() => {
-    setError(parseError);
-  }, [parseError]);
-  
-  // When player list fundamentally changes, reset the picked players.
+    const namesById = new Map<string, string>();
+    players.forEach(p => {
+      if (!namesById.has(p.id)) namesById.set(p.id, p.name);
+    });
+    const pickedIds = new Set([...pickedPlayers, ...livePicks.values(), ...mockPicks.values(), ...keepers.map(k => k.playerId)]);
+    setPickedPlayerNames(prev => {
+      const next: Record<string, string> = {};
+      pickedIds.forEach(id => {
+        const name = namesById.get(id) ?? prev[id];
+        if (name !== undefined) next[id] = name;
+      });
+      const isUnchanged = Object.keys(next).length === Object.keys(prev).length
+        && Object.entries(next).every(([id, name]) => prev[id] === name);
+      return isUnchanged ? prev : next;
+    });
+  }, [players, pickedPlayers, livePicks, mockPicks, keepers]);
+
+  const keeperPicks = useMemo(() => {
+    return getKeeperPicks(order, keepers.filter(k => playerIds.has(k.playerId)));
+  }, [order, keepers, playerIds]);
+
+  // Keepers occupy their slots in every mode, and win over a recorded pick for the same slot.
+  const mockLockedPicks = useMemo(() => {
+    return new Map([...withoutOrphans(mockPicks, playerIds), ...keeperPicks]);
+  }, [mockPicks, playerIds, keeperPicks]);
+  const lockedPicks = useMemo(() => {
+    return isRecordingPicks ? new Map([...withoutOrphans(recordedPicks, playerIds), ...keeperPicks]) : keeperPicks;
+  }, [isRecordingPicks, recordedPicks, playerIds, keeperPicks]);
+
+  // The players in overall pick order: the projection of the rest of the draft around
+  // keepers and, in live and mock modes, the picks that were actually made.
+  const projectedOrder = useMemo(() => applyLivePicks(rankedPlayers, lockedPicks), [rankedPlayers, lockedPicks]);
+
+  // Only the league's real draft length goes on the board; everyone after it goes undrafted.
+  const totalPicks = getTotalPicks(order);
+  const draftOrder = useMemo(() => projectedOrder.slice(0, totalPicks), [projectedOrder, totalPicks]);
+  const undraftedPlayers = useMemo(() => projectedOrder.slice(totalPicks), [projectedOrder, totalPicks]);
+
+  // The overall picks shown as drafted: locked picks, and in projection mode the slots of the greyed-out players.
+  const boardPickedPlayers = useMemo(() => {
+    if (isRecordingPicks) {
+      return new Set(lockedPicks.keys());
+    }
+    const greyedOut = draftOrder.flatMap((player, index) => (pickedPlayers.has(player.id) ? [index + 1] : []));
+    return new Set([...greyedOut, ...keeperPicks.keys()]);
+  }, [isRecordingPicks, lockedPicks, draftOrder, pickedPlayers, keeperPicks]);
+
+  const isMockDraftComplete = getNextOpenPick(mockLockedPicks) > draftOrder.length;
+  const isMyTurn = mySeat !== null && !isMockDraftComplete
+    && getPickOwner(order, getNextOpenPick(mockLockedPicks)) === mySeat;
+
+  // Bots keep drafting, one pick at a time, until the user is on the clock.
   useEffect(() => {
-    setPickedPlayers(new Set());
-  }, [playerListIdentifier]);
+    if (draftMode !== 'Mock' || mySeat === null || isMockDraftComplete || isMyTurn) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      const botPick = makeBotPick(players, mockLockedPicks, order, botStrategy, leagueSettings);
+      if (botPick) {
+        const { overallPick, player } = botPick;
+        const newPicks = new Map(mockPicks).set(overallPick, player.id);
+        const teamIndex = getPickOwner(order, overallPick);
+        commitPicks('bot-pick', `Pick ${overallPick}: ${getTeamName(leagueTeams, teamIndex)} (bot) took ${player.name}`, { mockPicks: newPicks }, overallPick);
+      }
+    }, BOT_PICK_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draftMode, mySeat, isMockDraftComplete, isMyTurn, mockPicks, mockLockedPicks, players, order, leagueTeams, botStrategy, leagueSettings]);
 
   // Memoize the draft board generation
   const draftData = useMemo(() => {
-    if (players && players.length > 0) {
-      return generateSnakeDraft(players, numTeams);
+    if (draftOrder && draftOrder.length > 0) {
+      return generateDraftBoard(draftOrder, order, leagueTeams);
     }
     return {};
-  }, [players, numTeams]);
+  }, [draftOrder, order, leagueTeams]);
 
   const handleRawTextChange = (text: string) => {
     setRawText(text);
@@ -171,52 +415,267 @@ const App: React.FC = () => {
       case 'ESPN Half':
         setRawText(ESPN_PLAYER_LIST);
         break;
+      case 'Consensus':
+        setRawText(formatConsensusText(consensusPlayers));
+        break;
       case 'Custom':
-        handleRawTextChange(localStorage.getItem('customPlayerRankings') || '');
+        handleRawTextChange(customRankings);
         break;
     }
   };
-  
+
+  // Re-merges the board's rankings when the consensus is showing, so new weights apply right away.
+  const handleConsensusSettingsChange = (settings: ConsensusSettings) => {
+    setConsensusSettings(settings);
+    if (dataSource === 'Consensus') {
+      setRawText(formatConsensusText(buildConsensus(consensusSources, settings)));
+    }
+  };
+
+  // Applies a change to the picks and records it so it can be undone.
+  const commitPicks = (kind: DraftActionKind, label: string, changes: Partial<DraftSnapshot>, overallPick?: number) => {
+    const before: DraftSnapshot = { pickedPlayers, livePicks, mockPicks };
+    const after: DraftSnapshot = { ...before, ...changes };
+    history.record({ kind, label, overallPick, before, after });
+    applySnapshot(after);
+    setAnnouncement(label);
+  };
+
   const handleTogglePlayerPicked = (overallPick: number) => {
-    setPickedPlayers(prevPicked => {
-      const newPicked = new Set(prevPicked);
-      if (newPicked.has(overallPick)) {
-        newPicked.delete(overallPick);
-      } else {
-        newPicked.add(overallPick);
+    // Live and mock picks may take a player projected to go undrafted, e.g. from the search.
+    const player = projectedOrder[overallPick - 1];
+    // Keeper slots are set in the keeper list, not from the board.
+    if (!player || keeperPicks.has(overallPick)) return;
+
+    if (isRecordingPicks) {
+      const newPicks = new Map(recordedPicks);
+      // An orphaned pick's slot shows someone else, who is still up for grabs.
+      if (newPicks.get(overallPick) === player.id) {
+        newPicks.delete(overallPick);
+        commitPicks('unpick', `Pick ${overallPick}: Removed ${player.name}`, { [recordedPicksKey]: newPicks }, overallPick);
+        return;
       }
-      return newPicked;
-    });
+      // The player was taken with the next open pick, which may be earlier than projected.
+      const nextOpenPick = getNextOpenPick(lockedPicks);
+      if (nextOpenPick <= draftOrder.length) {
+        newPicks.set(nextOpenPick, player.id);
+        commitPicks('pick', `Pick ${nextOpenPick}: ${player.name}`, { [recordedPicksKey]: newPicks }, nextOpenPick);
+      }
+      return;
+    }
+
+    if (overallPick > draftOrder.length) return;
+    const newPicked = new Set(pickedPlayers);
+    if (newPicked.has(player.id)) {
+      newPicked.delete(player.id);
+      commitPicks('unpick', `Pick ${overallPick}: Undrafted ${player.name}`, { pickedPlayers: newPicked }, overallPick);
+    } else {
+      newPicked.add(player.id);
+      commitPicks('pick', `Pick ${overallPick}: ${player.name}`, { pickedPlayers: newPicked }, overallPick);
+    }
   };
   
   const handleTogglePlayerHighlight = (overallPick: number) => {
-    const lines = rawText.split('\n');
-    let line = lines[overallPick-1];
-    if (line.trim().endsWith('*')) {
-      lines[overallPick-1] = line.trim().slice(0, -1).trim();
-    } else {
-      lines[overallPick-1] = `${line.trim()} *`;
-    }
-    const newRawText = lines.join('\n');
-    handleRawTextChange(newRawText);
+    const player = draftOrder[overallPick - 1];
+    if (!player) return;
+
+    const label = player.isHighlighted ? `Removed highlight from ${player.name}` : `Highlighted ${player.name}`;
+    history.record({ kind: 'highlight', label, highlightPlayerId: player.id });
+    setAnnouncement(label);
+    handleRawTextChange(toggleHighlightLine(rawText, player.lineIndex));
   };
 
   const handleMarkUntilPicked = (overallPick: number) => {
-    setPickedPlayers(prevPicked => {
-      const newPicked = new Set(prevPicked);
-      players.forEach(p => {
-        if (p.rank <= overallPick) {
-          newPicked.add(p.rank);
+    const label = `Drafted everyone through pick ${overallPick}`;
+
+    if (isRecordingPicks) {
+      // Accept the current projection for every open pick up to this one.
+      const newPicks = new Map(recordedPicks);
+      for (let pick = 1; pick <= overallPick; pick++) {
+        const player = draftOrder[pick - 1];
+        if (player && !lockedPicks.has(pick)) {
+          newPicks.set(pick, player.id);
         }
-      });
-      return newPicked;
-    });
+      }
+      commitPicks('mark-until', label, { [recordedPicksKey]: newPicks }, overallPick);
+      return;
+    }
+
+    const newPicked = new Set(pickedPlayers);
+    for (let pick = 1; pick <= Math.min(overallPick, draftOrder.length); pick++) {
+      if (!keeperPicks.has(pick)) {
+        newPicked.add(draftOrder[pick - 1].id);
+      }
+    }
+    commitPicks('mark-until', label, { pickedPlayers: newPicked }, overallPick);
   };
   
+  // Drops orphaned picks for good: recorded and greyed-out picks undoably, keepers directly.
+  const handleDiscardOrphanedPicks = () => {
+    setKeepers(prev => prev.filter(k => playerIds.has(k.playerId)));
+    if (orphanedPicks.every(pick => pick.kind === 'keeper')) return;
+    const label = 'Discarded picks of players no longer in the rankings';
+    if (isRecordingPicks) {
+      commitPicks('unpick', label, { [recordedPicksKey]: withoutOrphans(recordedPicks, playerIds) });
+    } else {
+      commitPicks('unpick', label, { pickedPlayers: new Set(Array.from(pickedPlayers).filter(id => playerIds.has(id))) });
+    }
+  };
+
   const handleResetDraft = () => {
-    setPickedPlayers(new Set());
+    autoPickedPicks.current.clear();
+    commitPicks('reset', 'Reset draft', { pickedPlayers: new Set(), livePicks: new Map(), mockPicks: new Map() });
+  };
+
+  // Everyone not yet drafted, for the search and the available players list. Live and mock
+  // picks can also take players projected to go undrafted.
+  const availablePlayers = useMemo((): AvailablePlayer[] => {
+    return (isRecordingPicks ? projectedOrder : draftOrder)
+      .map((player, index) => ({ player, overallPick: index + 1 }))
+      .filter(({ overallPick }) => !boardPickedPlayers.has(overallPick));
+  }, [isRecordingPicks, projectedOrder, draftOrder, boardPickedPlayers]);
+
+  const handleSaveNote = (playerId: string, note: string) => {
+    setPlayerNotes(prev => {
+      const notes = { ...prev };
+      if (note) {
+        notes[playerId] = note;
+      } else {
+        delete notes[playerId];
+      }
+      return notes;
+    });
+  };
+
+  const handleToggleQueue = (playerId: string) => {
+    setQueue(prev => (prev.includes(playerId) ? prev.filter(id => id !== playerId) : [...prev, playerId]));
+  };
+
+  // Adding, editing or removing an alias can change players' IDs. Everything stored by player ID
+  // moves from each player's old ID to their new one, found by resolving the names of the
+  // listed players (and of picked players no longer listed) with both the old and new aliases.
+  const handlePlayerAliasesChange = (aliases: Record<string, string>) => {
+    const resolveNewId = createPlayerIdResolver(aliases);
+    const newIds = new Map(Object.entries(pickedPlayerNames).map(([id, name]): [string, string] => [id, resolveNewId(name)]));
+    // A player listed twice under one ID moves with their first listing.
+    const listedIds = new Set<string>();
+    players.forEach(p => {
+      if (!listedIds.has(p.id)) {
+        listedIds.add(p.id);
+        newIds.set(p.id, resolveNewId(p.name));
+      }
+    });
+    const resolveId = (id: string) => newIds.get(id) ?? resolveNewId(id);
+    const rekeySnapshot = (snapshot: DraftSnapshot): DraftSnapshot => ({
+      pickedPlayers: new Set(rekeyList(Array.from(snapshot.pickedPlayers), resolveId)),
+      livePicks: rekeyPicks(snapshot.livePicks, resolveId),
+      mockPicks: rekeyPicks(snapshot.mockPicks, resolveId),
+    });
+    setPlayerAliases(aliases);
+    setPlayerNotes(prev => rekeyRecord(prev, resolveId));
+    setQueue(prev => rekeyList(prev, resolveId));
+    setPickedPlayerNames(prev => rekeyRecord(prev, resolveId));
+    setKeepers(prev => prev.map(keeper => ({ ...keeper, playerId: resolveId(keeper.playerId) })));
+    applySnapshot(rekeySnapshot({ pickedPlayers, livePicks, mockPicks }));
+    history.rewrite(action => ({
+      ...action,
+      highlightPlayerId: action.highlightPlayerId === undefined ? undefined : resolveId(action.highlightPlayerId),
+      before: action.before && rekeySnapshot(action.before),
+      after: action.after && rekeySnapshot(action.after),
+    }));
+  };
+
+  const actionSheetPlayer = actionSheetPick !== null ? draftOrder[actionSheetPick - 1] : undefined;
+
+  // Runs and scarcity are judged from the picks actually made, leaving keepers out.
+  const draftAlerts = useMemo(() => {
+    const madePicks = Array.from(boardPickedPlayers)
+      .filter(pick => !keeperPicks.has(pick) && pick <= draftOrder.length)
+      .sort((a, b) => a - b)
+      .map(pick => draftOrder[pick - 1]);
+    const runs = detectPositionRuns(madePicks);
+    if (mySeat === null) {
+      return { runs, scarcity: [] };
+    }
+    const currentPick = getNextOpenPick(boardPickedPlayers);
+    const myNextPick = getOwnedPicks(order, mySeat, draftOrder.length)
+      .find(pick => pick >= currentPick && !boardPickedPlayers.has(pick));
+    if (myNextPick === undefined) {
+      return { runs, scarcity: [] };
+    }
+    let picksUntilMyTurn = 0;
+    for (let pick = currentPick; pick < myNextPick; pick++) {
+      if (!boardPickedPlayers.has(pick)) picksUntilMyTurn++;
+    }
+    const available = availablePlayers.map(({ player }) => player);
+    return { runs, scarcity: getScarcityAlerts(available, madePicks, picksUntilMyTurn, numTeams * 2) };
+  }, [boardPickedPlayers, keeperPicks, draftOrder, mySeat, order, availablePlayers, numTeams]);
+
+  // Queued players drop out once drafted; they stay stored in case the pick is undone.
+  const availableQueue = useMemo(() => {
+    const availableIds = new Set(availablePlayers.map(({ player }) => player.id));
+    return queue.filter(id => availableIds.has(id));
+  }, [queue, availablePlayers]);
+
+  const handleReorderQueue = (reordered: string[]) => {
+    setQueue(prev => [...reordered, ...prev.filter(id => !reordered.includes(id))]);
+  };
+
+  // With auto-pick on, the top queued player is taken as soon as the user is on the clock.
+  useEffect(() => {
+    if (!autoPickQueue || !isRecordingPicks || mySeat === null || availableQueue.length === 0) {
+      return;
+    }
+    const overallPick = getNextOpenPick(lockedPicks);
+    if (overallPick > draftOrder.length || getPickOwner(order, overallPick) !== mySeat || autoPickedPicks.current.has(overallPick)) {
+      return;
+    }
+    const target = availablePlayers.find(({ player }) => player.id === availableQueue[0]);
+    if (!target) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      autoPickedPicks.current.add(overallPick);
+      const newPicks = new Map(recordedPicks).set(overallPick, target.player.id);
+      commitPicks('pick', `Pick ${overallPick}: ${target.player.name} (auto-picked from queue)`, { [recordedPicksKey]: newPicks }, overallPick);
+    }, BOT_PICK_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [autoPickQueue, isRecordingPicks, mySeat, availableQueue, availablePlayers, lockedPicks, draftOrder, order, recordedPicks, recordedPicksKey]);
+
+  const handleSearchSelect = (overallPick: number) => {
+    setIsSearchOpen(false);
+    handleTogglePlayerPicked(overallPick);
   };
 
+  // Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y redoes, and / or Ctrl/Cmd+K opens
+  // the player search, except while editing text.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select')) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if ((key === '/' && !e.ctrlKey && !e.metaKey) || (key === 'k' && (e.ctrlKey || e.metaKey))) {
+        e.preventDefault();
+        setIsSearchOpen(true);
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) {
+        return;
+      }
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history]);
+
   return (
     <div className="bg-gray-900 text-gray-200 min-h-screen font-sans p-4 sm:p-8">
       <div className="max-w-screen-2xl mx-auto">
@@ -231,48 +690,280 @@ const App: React.FC = () => {
 
         <main>
           <Controls
+            draftLibrary={draftLibrary}
             rawText={rawText}
             setRawText={handleRawTextChange}
+            parseIssues={parseIssues}
             numTeams={numTeams}
-            setNumTeams={setNumTeams}
+            setNumTeams={handleNumTeamsChange}
+            teams={leagueTeams}
+            onTeamChange={handleTeamChange}
+            numRounds={numRounds}
+            setNumRounds={setNumRounds}
+            draftFormat={draftFormat}
+            onDraftFormatChange={setDraftFormat}
+            customDraftOrder={customDraftOrder}
+            setCustomDraftOrder={setCustomDraftOrder}
+            players={players}
+            tradedPicks={tradedPicks}
+            onTradedPicksChange={setTradedPicks}
+            keepers={keepers}
+            onKeepersChange={setKeepers}
+            order={order}
             dataSource={dataSource}
             onDataSourceChange={handleDataSourceChange}
+            mySeat={mySeat}
+            setMySeat={setMySeat}
+            draftMode={draftMode}
+            onDraftModeChange={setDraftMode}
+            botStrategy={botStrategy}
+            onBotStrategyChange={setBotStrategy}
+            boardRanking={boardRanking}
+            onBoardRankingChange={setBoardRanking}
+            hasProjections={hasProjections}
+            consensusSettings={consensusSettings}
+            onConsensusSettingsChange={handleConsensusSettingsChange}
+            consensusPlayers={consensusPlayers}
+            consensusSourceNames={consensusSources.map(source => source.name)}
+            playerAliases={playerAliases}
+            onPlayerAliasesChange={handlePlayerAliasesChange}
+            leagueSettings={leagueSettings}
+            onLeagueSettingsChange={setLeagueSettings}
             onResetDraft={handleResetDraft}
+            canUndo={history.canUndo}
+            canRedo={history.canRedo}
+            onUndo={history.undo}
+            onRedo={history.redo}
           />
 
-          {error && (
-            <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg relative my-4" role="alert">
-              <strong className="font-bold">Parsing Error: </strong>
-              <span className="block sm:inline">{error}</span>
+          <div className="mb-6 p-4 bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-lg flex flex-wrap justify-center items-center gap-x-6 gap-y-2 text-sm text-gray-400" role="toolbar" aria-label="Board Controls">
+            {getControlHints(inputMode, isRecordingPicks).map(([input, action], index) => (
+              <React.Fragment key={input}>
+                {index > 0 && <span className="text-gray-700 hidden sm:inline">|</span>}
+                <span className="flex items-center gap-2">
+                  <strong className="font-semibold text-gray-200">{input}:</strong> {action}
+                </span>
+              </React.Fragment>
+            ))}
+          </div>
+
+          <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+          {actionSheetPick !== null && actionSheetPlayer && (
+            <PlayerActionSheet
+              player={actionSheetPlayer}
+              overallPick={actionSheetPick}
+              note={playerNotes[actionSheetPlayer.id] ?? ''}
+              isQueued={queue.includes(actionSheetPlayer.id)}
+              onToggleHighlight={() => handleTogglePlayerHighlight(actionSheetPick)}
+              onMarkUntilPicked={() => handleMarkUntilPicked(actionSheetPick)}
+              onSaveNote={(note) => handleSaveNote(actionSheetPlayer.id, note)}
+              onToggleQueue={() => handleToggleQueue(actionSheetPlayer.id)}
+              onClose={() => setActionSheetPick(null)}
+            />
+          )}
+          {isSearchOpen && (
+            <PlayerSearchPalette options={availablePlayers} onSelect={handleSearchSelect} onClose={() => setIsSearchOpen(false)} />
+          )}
+
+          {draftMode === 'Mock' && (
+            <div className="mb-6 p-3 bg-cyan-900/30 border border-cyan-800 text-cyan-200 rounded-lg text-sm text-center" role="status" aria-live="polite">
+              {mySeat === null
+                ? 'Choose your draft slot to start the mock draft. Every other team is drafted by a bot.'
+                : isMockDraftComplete
+                  ? 'The mock draft is complete.'
+                  : isMyTurn
+                    ? `You're on the clock with pick ${getNextOpenPick(mockLockedPicks)}.`
+                    : `Bots are drafting (${botStrategy})...`}
             </div>
           )}
 
-          <div className="mb-6 p-4 bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-lg flex flex-wrap justify-center items-center gap-x-6 gap-y-2 text-sm text-gray-400" role="toolbar" aria-label="Mouse Controls">
-            <span className="flex items-center gap-2">
-              <strong className="font-semibold text-gray-200">Left Click:</strong> Draft a player
-            </span>
-            <span className="text-gray-700 hidden sm:inline">|</span>
-            <span className="flex items-center gap-2">
-              <strong className="font-semibold text-gray-200">Middle Click:</strong> Draft all players before
-            </span>
-            <span className="text-gray-700 hidden sm:inline">|</span>
-            <span className="flex items-center gap-2">
-              <strong className="font-semibold text-gray-200">Right Click:</strong> Highlight a player
-            </span>
-          </div>
+          <OrphanedPicks picks={orphanedPicks} playerNames={pickedPlayerNames} teams={leagueTeams} onDiscard={handleDiscardOrphanedPicks} />
+          <DraftAlerts runs={draftAlerts.runs} scarcity={draftAlerts.scarcity} />
 
-          <DraftBoard 
-            boardData={draftData} 
-            numTeams={numTeams} 
-            pickedPlayers={pickedPlayers}
-            onTogglePlayerPicked={handleTogglePlayerPicked}
-            onTogglePlayerHighlight={handleTogglePlayerHighlight}
-            onMarkUntilPicked={handleMarkUntilPicked}
-          />
+          <div className="flex flex-col xl:flex-row gap-6">
+            <div className="flex-1 min-w-0">
+              <DraftBoard 
+                boardData={draftData} 
+                order={order}
+                teams={leagueTeams}
+                pickedPlayers={boardPickedPlayers}
+                keeperPicks={keeperPicks}
+                onTogglePlayerPicked={handleTogglePlayerPicked}
+                onTogglePlayerHighlight={handleTogglePlayerHighlight}
+                onMarkUntilPicked={handleMarkUntilPicked}
+                onLongPressPlayer={setActionSheetPick}
+                onSwipeUndo={history.undo}
+                playerNotes={playerNotes}
+                valueOverReplacement={valueOverReplacement}
+                consensusById={consensusById}
+                rankChangesById={rankChangesById}
+                rankChangesLabel={comparisonOptions.find(option => option.id === compareFromId)?.label ?? ''}
+                mySeat={mySeat}
+                onSelectSeat={setMySeat}
+                leagueSettings={leagueSettings}
+              />
+              {draftOrder.length > 0 && (
+                <TeamSummaries
+                  draftOrder={draftOrder}
+                  order={order}
+                  teams={leagueTeams}
+                  pickedPlayers={boardPickedPlayers}
+                  mySeat={mySeat}
+                />
+              )}
+              {draftOrder.length > 0 && undraftedPlayers.length > 0 && (
+                <UndraftedPlayers players={undraftedPlayers} />
+              )}
+              <RankingComparison
+                options={comparisonOptions}
+                fromId={compareFromId}
+                toId={compareToId}
+                onFromChange={setCompareFromId}
+                onToChange={setCompareToId}
+                changes={rankingChanges}
+                showOnBoard={showRankChanges}
+                onShowOnBoardChange={setShowRankChanges}
+                snapshots={rankingSnapshots}
+                onSaveSnapshot={handleSaveRankingSnapshot}
+                onDeleteSnapshot={handleDeleteRankingSnapshot}
+              />
+            </div>
+            {draftOrder.length > 0 && (
+              <div className="xl:w-72 flex-shrink-0 space-y-6">
+                <AvailablePlayersPanel
+                  players={availablePlayers}
+                  onDraft={handleTogglePlayerPicked}
+                  queuedIds={new Set(queue)}
+                  onToggleQueue={handleToggleQueue}
+                />
+                {mySeat !== null && (
+                  <MyTeamPanel
+                    mySeat={mySeat}
+                    teamName={getTeamName(leagueTeams, mySeat)}
+                    order={order}
+                    draftOrder={draftOrder}
+                    pickedPlayers={boardPickedPlayers}
+                  />
+                )}
+                {queue.length > 0 && (
+                  <QueuePanel
+                    queue={availableQueue}
+                    players={players}
+                    onRemove={handleToggleQueue}
+                    onReorder={handleReorderQueue}
+                    autoPick={autoPickQueue}
+                    onAutoPickChange={setAutoPickQueue}
+                    canAutoPick={isRecordingPicks}
+                  />
+                )}
+                <DraftTimeline past={history.past} future={history.future} onGoTo={history.goTo} />
+              </div>
+            )}
+          </div>
         </main>
       </div>
     </div>
   );
 };
 
+const App: React.FC = () => {
+  const [library, setLibrary] = useState<DraftLibrary>(() => loadDraftLibrary());
+
+  useEffect(() => {
+    saveDraftLibrary(library);
+  }, [library]);
+
+  const activeSummary = library.drafts.find(d => d.id === library.activeDraftId) ?? library.drafts[0];
+
+  // Loaded once per switch; afterwards the workspace owns the draft's state and saves it back.
+  const activeDraft = useMemo(() => {
+    return loadDraft(activeSummary.id) ?? { ...createDraft(activeSummary.name), id: activeSummary.id };
+  }, [activeSummary.id]);
+
+  const handleSaveDraft = (data: DraftData) => {
+    saveDraft({ ...activeDraft, ...data, name: activeSummary.name });
+  };
+
+  const handleCreateDraft = () => {
+    const draft = createDraft(`Draft ${library.drafts.length + 1}`);
+    saveDraft(draft);
+    setLibrary(prev => ({ activeDraftId: draft.id, drafts: [...prev.drafts, toSummary(draft)] }));
+  };
+
+  const handleRenameDraft = (id: string, name: string) => {
+    const stored = loadDraft(id);
+    if (stored) {
+      saveDraft({ ...stored, name });
+    }
+    setLibrary(prev => ({ ...prev, drafts: prev.drafts.map(d => (d.id === id ? { ...d, name } : d)) }));
+  };
+
+  const handleDuplicateDraft = (id: string) => {
+    const source = loadDraft(id);
+    if (!source) return;
+    const { id: newId, createdAt } = createDraft(source.name);
+    const copy = { ...source, id: newId, createdAt, name: `${source.name} (copy)` };
+    saveDraft(copy);
+    setLibrary(prev => ({ activeDraftId: copy.id, drafts: [...prev.drafts, toSummary(copy)] }));
+  };
+
+  const handleDeleteDraft = (id: string) => {
+    removeDraft(id);
+    const remaining = library.drafts.filter(d => d.id !== id);
+    if (remaining.length === 0) {
+      const draft = createDraft('My Draft');
+      saveDraft(draft);
+      setLibrary({ activeDraftId: draft.id, drafts: [toSummary(draft)] });
+      return;
+    }
+    setLibrary({
+      activeDraftId: library.activeDraftId === id ? remaining[0].id : library.activeDraftId,
+      drafts: remaining,
+    });
+  };
+
+  const handleExportDraft = (id: string) => {
+    const draft = loadDraft(id);
+    if (!draft) return;
+    const blob = new Blob([JSON.stringify(buildDraftExport(draft), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getDraftExportFileName(draft);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportDraft = (text: string): string | null => {
+    const { draft, error } = parseDraftExport(text);
+    if (!draft) {
+      return error;
+    }
+    saveDraft(draft);
+    setLibrary(prev => ({ activeDraftId: draft.id, drafts: [...prev.drafts, toSummary(draft)] }));
+    return null;
+  };
+
+  const draftLibrary: DraftLibraryControls = {
+    drafts: library.drafts,
+    activeDraftId: activeSummary.id,
+    onSwitch: (id) => setLibrary(prev => ({ ...prev, activeDraftId: id })),
+    onCreate: handleCreateDraft,
+    onRename: handleRenameDraft,
+    onDuplicate: handleDuplicateDraft,
+    onDelete: handleDeleteDraft,
+    onExport: handleExportDraft,
+    onImport: handleImportDraft,
+  };
+
+  return (
+    <DraftWorkspace
+      key={activeSummary.id}
+      draft={activeDraft}
+      onSave={handleSaveDraft}
+      draftLibrary={draftLibrary}
+    />
+  );
+};
+
 export default App;
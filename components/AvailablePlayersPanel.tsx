@@ -0,0 +1,152 @@
+import React, { useState, useMemo } from 'react';
+import type { AvailablePlayer, Player } from '../types';
+import { POSITION_FAMILIES, PositionFamily, formatPosition, getPositionColorClasses, getPositionFamily } from '../utils/positions';
+
+interface AvailablePlayersPanelProps {
+  players: AvailablePlayer[];
+  onDraft: (overallPick: number) => void;
+  // IDs of the queued players.
+  queuedIds: Set<string>;
+  onToggleQueue: (playerId: string) => void;
+}
+
+type SortKey = 'rank' | 'adp' | 'tier' | 'projection';
+
+const SORT_LABELS: Record<SortKey, string> = {
+  rank: 'Rank',
+  adp: 'ADP',
+  tier: 'Tier',
+  projection: 'Proj',
+};
+
+// Players missing the sorted value go last, in rank order.
+const compareOptional = (a: number | undefined, b: number | undefined): number => {
+  if (a === undefined || b === undefined) {
+    return (a === undefined ? 1 : 0) - (b === undefined ? 1 : 0);
+  }
+  return a - b;
+};
+
+const SORT_COMPARATORS: Record<SortKey, (a: Player, b: Player) => number> = {
+  rank: (a, b) => a.rank - b.rank,
+  adp: (a, b) => compareOptional(a.adp, b.adp) || a.rank - b.rank,
+  tier: (a, b) => compareOptional(a.tier, b.tier) || a.rank - b.rank,
+  // Highest projection first.
+  projection: (a, b) => compareOptional(
+    a.projectedPoints === undefined ? undefined : -a.projectedPoints,
+    b.projectedPoints === undefined ? undefined : -b.projectedPoints,
+  ) || a.rank - b.rank,
+};
+
+const getSortValue = (player: Player, sortKey: SortKey): string => {
+  switch (sortKey) {
+    case 'adp':
+      return player.adp !== undefined ? String(player.adp) : '–';
+    case 'tier':
+      return player.tier !== undefined ? `T${player.tier}` : '–';
+    case 'projection':
+      return player.projectedPoints !== undefined ? String(Math.round(player.projectedPoints)) : '–';
+    default:
+      return '';
+  }
+};
+
+const AvailablePlayersPanel: React.FC<AvailablePlayersPanelProps> = ({ players, onDraft, queuedIds, onToggleQueue }) => {
+  const [query, setQuery] = useState('');
+  const [families, setFamilies] = useState<Set<PositionFamily>>(new Set());
+  const [sortKey, setSortKey] = useState<SortKey>('rank');
+
+  const toggleFamily = (family: PositionFamily) => {
+    setFamilies(prev => {
+      const next = new Set(prev);
+      if (next.has(family)) {
+        next.delete(family);
+      } else {
+        next.add(family);
+      }
+      return next;
+    });
+  };
+
+  const visiblePlayers = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return players
+      .filter(({ player }) => player.name.toLowerCase().includes(needle))
+      .filter(({ player }) => families.size === 0 || families.has(getPositionFamily(player.position)))
+      .sort((a, b) => SORT_COMPARATORS[sortKey](a.player, b.player));
+  }, [players, query, families, sortKey]);
+
+  return (
+    <aside className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 p-4 rounded-lg shadow-lg" aria-label="Available players">
+      <h2 className="text-lg font-bold text-cyan-300">
+        Available <span className="text-xs font-normal text-gray-500">({players.length})</span>
+      </h2>
+      <input
+        type="search"
+        className="mt-3 w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-1.5 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+        placeholder="Search players"
+        aria-label="Search available players"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+      />
+      <div className="mt-2 flex flex-wrap gap-1" role="group" aria-label="Filter by position">
+        {POSITION_FAMILIES.map(family => (
+          <button
+            key={family}
+            onClick={() => toggleFamily(family)}
+            className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${
+              families.has(family)
+                ? `bg-gray-600 border-gray-400 ${getPositionColorClasses(family).text}`
+                : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'
+            }`}
+            aria-pressed={families.has(family)}
+          >
+            {family}
+          </button>
+        ))}
+      </div>
+      <label className="mt-2 flex items-center gap-2 text-xs text-gray-400">
+        Sort by
+        <select
+          className="bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+          value={sortKey}
+          onChange={(e) => setSortKey(e.target.value as SortKey)}
+        >
+          {(Object.keys(SORT_LABELS) as SortKey[]).map(key => (
+            <option key={key} value={key}>{SORT_LABELS[key]}</option>
+          ))}
+        </select>
+      </label>
+      <ul className="mt-3 max-h-80 overflow-y-auto text-sm space-y-0.5">
+        {visiblePlayers.length === 0 ? (
+          <li className="px-2 py-1 text-gray-500">No players match.</li>
+        ) : visiblePlayers.map(({ player, overallPick }) => (
+          <li key={player.lineIndex} className="flex items-center">
+            <button
+              onClick={() => onDraft(overallPick)}
+              className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1 rounded text-left hover:bg-gray-700"
+              title={`Draft ${player.name}`}
+            >
+              <span className="w-7 text-right text-xs font-mono text-gray-500">{player.rank}</span>
+              <span className={`flex-1 truncate text-gray-200 ${player.isHighlighted ? 'text-yellow-300' : ''}`}>{player.name}</span>
+              <span className={`text-xs font-mono ${getPositionColorClasses(player.position).text}`}>{formatPosition(player)}</span>
+              {sortKey !== 'rank' && (
+                <span className="w-8 text-right text-xs font-mono text-gray-400">{getSortValue(player, sortKey)}</span>
+              )}
+            </button>
+            <button
+              onClick={() => onToggleQueue(player.id)}
+              className={`px-1 text-sm ${queuedIds.has(player.id) ? 'text-cyan-300' : 'text-gray-600 hover:text-gray-300'}`}
+              aria-pressed={queuedIds.has(player.id)}
+              aria-label={queuedIds.has(player.id) ? `Remove ${player.name} from queue` : `Add ${player.name} to queue`}
+            >
+              {queuedIds.has(player.id) ? '★' : '☆'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default AvailablePlayersPanel;
@@ -0,0 +1,123 @@
+import React from 'react';
+import type { ConsensusSettings } from '../types';
+import { CONSENSUS_METHODS } from '../constants';
+import type { ConsensusPlayer } from '../utils/consensus';
+
+interface ConsensusEditorProps {
+  settings: ConsensusSettings;
+  onChange: (settings: ConsensusSettings) => void;
+  players: ConsensusPlayer[];
+  // Names of the merged sources, in the order of each player's ranks.
+  sourceNames: string[];
+}
+
+const MAX_WEIGHT = 10;
+
+const parseWeight = (value: string): number => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? 0 : Math.min(Math.max(parsed, 0), MAX_WEIGHT);
+};
+
+const formatRank = (rank: number): string => (Number.isInteger(rank) ? String(rank) : rank.toFixed(1));
+
+const ConsensusEditor: React.FC<ConsensusEditorProps> = ({ settings, onChange, players, sourceNames }) => {
+  const disputedCount = players.filter(p => p.isDisputed).length;
+
+  const handleWeightChange = (source: string, value: string) => {
+    onChange({ ...settings, weights: { ...settings.weights, [source]: parseWeight(value) } });
+  };
+
+  return (
+    <details className="mt-6 border-t border-gray-700 pt-4">
+      <summary className="cursor-pointer text-sm font-medium text-gray-300">
+        Consensus Rankings
+        <span className="ml-2 text-xs text-gray-500">
+          ({players.length} players, {disputedCount} disputed)
+        </span>
+      </summary>
+      <div className="mt-4 flex flex-wrap items-end gap-6">
+        <fieldset>
+          <legend className="text-xs font-medium text-gray-400 mb-2">Merge By</legend>
+          <div className="flex gap-2">
+            {CONSENSUS_METHODS.map(method => (
+              <button
+                key={method}
+                onClick={() => onChange({ ...settings, method })}
+                className={`px-3 py-1 rounded-md text-xs font-semibold transition-colors duration-200 ${
+                  settings.method === method ? 'bg-cyan-500 text-white shadow-md' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+                aria-pressed={settings.method === method}
+              >
+                {method} Rank
+              </button>
+            ))}
+          </div>
+        </fieldset>
+        {settings.method === 'Weighted' && (
+          <fieldset>
+            <legend className="text-xs font-medium text-gray-400 mb-2">Source Weights</legend>
+            <div className="flex gap-2">
+              {sourceNames.map(source => (
+                <label key={source} className="text-xs text-gray-400">
+                  {source}
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_WEIGHT}
+                    step={0.5}
+                    className="w-24 block bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                    value={settings.weights[source] ?? 1}
+                    onChange={(e) => handleWeightChange(source, e.target.value)}
+                  />
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
+      </div>
+      <p className="mt-3 text-xs text-gray-500">
+        Players are matched across sources even when spelled differently. Each is ranked by the sources that list them;
+        disputed players are the ones those sources disagree on most.
+      </p>
+      <div className="mt-3 max-h-80 overflow-y-auto border border-gray-700 rounded-md">
+        <table className="w-full text-xs text-gray-300">
+          <thead className="sticky top-0 bg-gray-800 text-gray-400">
+            <tr>
+              <th scope="col" className="px-2 py-1 text-right">#</th>
+              <th scope="col" className="px-2 py-1 text-left">Player</th>
+              {sourceNames.map(source => (
+                <th key={source} scope="col" className="px-2 py-1 text-right">{source}</th>
+              ))}
+              <th scope="col" className="px-2 py-1 text-right">Avg</th>
+              <th scope="col" className="px-2 py-1 text-right">Wtd</th>
+              <th scope="col" className="px-2 py-1 text-right">Min</th>
+              <th scope="col" className="px-2 py-1 text-right">Max</th>
+              <th scope="col" className="px-2 py-1 text-right">SD</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {players.map((p, index) => (
+              <tr key={p.ids[0]} className={p.isDisputed ? 'bg-amber-900/20' : undefined}>
+                <td className="px-2 py-0.5 text-right text-gray-500">{index + 1}</td>
+                <td className="px-2 py-0.5 font-sans">
+                  {p.name} <span className="text-gray-500">{p.position}</span>
+                  {p.isDisputed && <span className="ml-1 text-amber-400">Disputed</span>}
+                </td>
+                {p.ranks.map((rank, sourceIndex) => (
+                  <td key={sourceNames[sourceIndex]} className="px-2 py-0.5 text-right">{rank ?? '–'}</td>
+                ))}
+                <td className="px-2 py-0.5 text-right">{formatRank(p.averageRank)}</td>
+                <td className="px-2 py-0.5 text-right">{formatRank(p.weightedRank)}</td>
+                <td className="px-2 py-0.5 text-right">{p.minRank}</td>
+                <td className="px-2 py-0.5 text-right">{p.maxRank}</td>
+                <td className="px-2 py-0.5 text-right">{p.stdDev.toFixed(1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  );
+};
+
+export default ConsensusEditor;
@@ -1,36 +1,149 @@
-import React from 'react';
-import { DataSource } from '../types';
+import React, { useState, useRef } from 'react';
+import { DataSource, ConsensusSettings, DraftFormat, DraftMode, BotStrategy, BoardRanking, DraftOrder, Keeper, LeagueSettings, ParseIssue, Player, Team } from '../types';
+import { DRAFT_FORMATS, DRAFT_MODES, BOT_STRATEGIES, BOARD_RANKINGS, DATA_SOURCES, MIN_TEAMS, MAX_TEAMS, MAX_ROUNDS } from '../constants';
+import { parseCustomRoundOrders } from '../utils/draftOrder';
+import type { ConsensusPlayer } from '../utils/consensus';
+import { getTeamName } from '../utils/teams';
+import LeagueSettingsEditor from './LeagueSettingsEditor';
+import ConsensusEditor from './ConsensusEditor';
+import PickAdjustmentsEditor from './PickAdjustmentsEditor';
+import TeamNamesEditor from './TeamNamesEditor';
+import PlayerAliasesEditor from './PlayerAliasesEditor';
+import RankingsImporter from './RankingsImporter';
+import DraftSwitcher, { DraftLibraryControls } from './DraftSwitcher';
 
 interface ControlsProps {
+  draftLibrary: DraftLibraryControls;
   rawText: string;
   setRawText: (text: string) => void;
+  parseIssues: ParseIssue[];
   numTeams: number;
   setNumTeams: (teams: number) => void;
+  numRounds: number;
+  setNumRounds: (rounds: number) => void;
+  teams: Team[];
+  onTeamChange: (team: Team) => void;
+  draftFormat: DraftFormat;
+  onDraftFormatChange: (format: DraftFormat) => void;
+  customDraftOrder: string;
+  setCustomDraftOrder: (text: string) => void;
+  players: Player[];
+  tradedPicks: Map<number, number>;
+  onTradedPicksChange: (tradedPicks: Map<number, number>) => void;
+  keepers: Keeper[];
+  onKeepersChange: (keepers: Keeper[]) => void;
+  // The draft order with trades applied, which decides the pick each keeper uses.
+  order: DraftOrder;
+  mySeat: number | null;
+  setMySeat: (seat: number | null) => void;
   dataSource: DataSource;
   onDataSourceChange: (source: DataSource) => void;
+  draftMode: DraftMode;
+  onDraftModeChange: (mode: DraftMode) => void;
+  botStrategy: BotStrategy;
+  onBotStrategyChange: (strategy: BotStrategy) => void;
+  boardRanking: BoardRanking;
+  onBoardRankingChange: (ranking: BoardRanking) => void;
+  // VBD needs projected points; without any the option is disabled.
+  hasProjections: boolean;
+  consensusSettings: ConsensusSettings;
+  onConsensusSettingsChange: (settings: ConsensusSettings) => void;
+  consensusPlayers: ConsensusPlayer[];
+  consensusSourceNames: string[];
+  playerAliases: Record<string, string>;
+  onPlayerAliasesChange: (aliases: Record<string, string>) => void;
+  leagueSettings: LeagueSettings;
+  onLeagueSettingsChange: (settings: LeagueSettings) => void;
   onResetDraft: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
-const TEAM_OPTIONS = [8, 10, 12, 14];
-const DATA_SOURCES: DataSource[] = ['Sleeper PPR', 'Yahoo Half', 'ESPN Half', 'Custom'];
+
+const DRAFT_FORMAT_DESCRIPTIONS: Record<DraftFormat, string> = {
+  'Snake': 'Every round reverses the order of the round before it.',
+  '3RR': 'Third-round reversal: rounds 2 and 3 both run backwards, then the snake resumes.',
+  'Linear': 'Every round uses the same order.',
+  'Custom': 'Set the team order of each round yourself.',
+};
 
 const Controls: React.FC<ControlsProps> = ({
+  draftLibrary,
   rawText,
   setRawText,
+  parseIssues,
   numTeams,
   setNumTeams,
+  numRounds,
+  setNumRounds,
+  teams,
+  onTeamChange,
+  draftFormat,
+  onDraftFormatChange,
+  customDraftOrder,
+  setCustomDraftOrder,
+  players,
+  tradedPicks,
+  onTradedPicksChange,
+  keepers,
+  onKeepersChange,
+  order,
+  mySeat,
+  setMySeat,
   dataSource,
   onDataSourceChange,
+  draftMode,
+  onDraftModeChange,
+  botStrategy,
+  onBotStrategyChange,
+  boardRanking,
+  onBoardRankingChange,
+  hasProjections,
+  consensusSettings,
+  onConsensusSettingsChange,
+  consensusPlayers,
+  consensusSourceNames,
+  playerAliases,
+  onPlayerAliasesChange,
+  leagueSettings,
+  onLeagueSettingsChange,
   onResetDraft,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
 }) => {
+  const [isImporterOpen, setIsImporterOpen] = useState(false);
+  const customOrderError = draftFormat === 'Custom' ? parseCustomRoundOrders(customDraftOrder, numTeams).error : null;
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const errorCount = parseIssues.filter(issue => issue.severity === 'error').length;
+  const warningCount = parseIssues.length - errorCount;
+
+  // Selects the offending line in the rankings textarea.
+  const handleJumpToLine = (line: number) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const lines = rawText.split('\n');
+    const start = lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+    const end = start + (lines[line - 1]?.length ?? 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+    textarea.scrollTop = ((line - 1) / lines.length) * textarea.scrollHeight - textarea.clientHeight / 2;
+  };
+
   return (
     <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 p-6 rounded-lg shadow-lg mb-8">
+      <DraftSwitcher {...draftLibrary} />
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="md:col-span-2">
           <label htmlFor="player-rankings" className="block text-sm font-medium text-gray-300 mb-2">
             Player Rankings
           </label>
           <textarea
+            ref={textareaRef}
             id="player-rankings"
             rows={10}
             className="w-full bg-gray-900 border border-gray-600 rounded-md p-3 text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition-colors duration-200 shadow-inner"
@@ -38,8 +151,42 @@ const Controls: React.FC<ControlsProps> = ({
             value={rawText}
             onChange={(e) => setRawText(e.target.value)}
             aria-label="Player Rankings Input"
+            aria-invalid={errorCount > 0}
+            aria-describedby={parseIssues.length > 0 ? 'player-rankings-issues' : undefined}
           />
-          <p className="text-xs text-gray-500 mt-2">Format: Rank Name Position (e.g., 1 Ja'Marr Chase WR). Your custom list is saved automatically.</p>
+          {parseIssues.length > 0 && (
+            <div id="player-rankings-issues" className="mt-2 border border-gray-700 rounded-md bg-gray-900/60" role="status" aria-live="polite">
+              <p className="px-3 py-2 text-xs font-semibold text-gray-300 border-b border-gray-700">
+                {errorCount > 0 && <span className="text-red-400">{errorCount} {errorCount === 1 ? 'error' : 'errors'}</span>}
+                {errorCount > 0 && warningCount > 0 && ', '}
+                {warningCount > 0 && <span className="text-amber-400">{warningCount} {warningCount === 1 ? 'warning' : 'warnings'}</span>}
+              </p>
+              <ul className="max-h-32 overflow-y-auto text-xs">
+                {parseIssues.map((issue, index) => (
+                  <li key={`${issue.line}-${issue.kind}-${index}`}>
+                    <button
+                      onClick={() => handleJumpToLine(issue.line)}
+                      className="w-full flex gap-2 px-3 py-1 text-left hover:bg-gray-800 focus:outline-none focus:bg-gray-800"
+                    >
+                      <span className={`font-mono flex-shrink-0 ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+                        Line {issue.line}
+                      </span>
+                      <span className="text-gray-300">{issue.message}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div className="flex flex-wrap justify-between items-start gap-2 mt-2">
+            <p className="text-xs text-gray-500">Format: Rank Name Position (e.g., 1 Ja'Marr Chase WR), or a CSV/TSV with a header row. Your custom list is saved automatically.</p>
+            <button
+              onClick={() => setIsImporterOpen(true)}
+              className="px-3 py-1 rounded-md text-xs font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+            >
+              Import CSV / TSV
+            </button>
+          </div>
         </div>
         <div className="space-y-6">
           <div>
@@ -62,32 +209,192 @@ const Controls: React.FC<ControlsProps> = ({
                 </button>
               ))}
             </div>
+            {dataSource === 'Consensus' && (
+              <p className="text-xs text-gray-500 mt-2">The built-in lists merged into one ranking. Adjust how below, under Consensus Rankings.</p>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="num-teams" className="block text-sm font-medium text-gray-300 mb-2">
+                Number of Teams
+              </label>
+              <select
+                id="num-teams"
+                className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                value={numTeams}
+                onChange={(e) => setNumTeams(parseInt(e.target.value, 10))}
+              >
+                {Array.from({ length: MAX_TEAMS - MIN_TEAMS + 1 }, (_, i) => MIN_TEAMS + i).map((teams) => (
+                  <option key={teams} value={teams}>{teams} Teams</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="num-rounds" className="block text-sm font-medium text-gray-300 mb-2">
+                Number of Rounds
+              </label>
+              <select
+                id="num-rounds"
+                className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                value={numRounds}
+                onChange={(e) => setNumRounds(parseInt(e.target.value, 10))}
+              >
+                {Array.from({ length: MAX_ROUNDS }, (_, i) => i + 1).map((rounds) => (
+                  <option key={rounds} value={rounds}>{rounds} Rounds</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">{numTeams * numRounds} picks in total.</p>
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Draft Format
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              {DRAFT_FORMATS.map((format) => (
+                <button
+                  key={format}
+                  onClick={() => onDraftFormatChange(format)}
+                  className={`px-2 py-2 rounded-md text-sm font-semibold transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 ${
+                    draftFormat === format
+                      ? 'bg-cyan-500 text-white shadow-md'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                  aria-pressed={draftFormat === format}
+                  title={DRAFT_FORMAT_DESCRIPTIONS[format]}
+                >
+                  {format}
+                </button>
+              ))}
+            </div>
+            {draftFormat === 'Custom' && (
+              <div className="mt-3">
+                <label htmlFor="custom-draft-order" className="block text-xs font-medium text-gray-400 mb-1">
+                  Team order for each round, one round per line
+                </label>
+                <textarea
+                  id="custom-draft-order"
+                  rows={4}
+                  className="w-full bg-gray-900 border border-gray-600 rounded-md p-2 text-xs font-mono text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                  placeholder={`${Array.from({ length: numTeams }, (_, t) => t + 1).join(' ')}\n${Array.from({ length: numTeams }, (_, t) => numTeams - t).join(' ')}`}
+                  value={customDraftOrder}
+                  onChange={(e) => setCustomDraftOrder(e.target.value)}
+                />
+                {customOrderError ? (
+                  <p className="text-xs text-red-400 mt-1" role="alert">{customOrderError} Only the rounds above it are used.</p>
+                ) : (
+                  <p className="text-xs text-gray-500 mt-1">Listed rounds repeat for the rest of the draft. Leave empty for a snake.</p>
+                )}
+              </div>
+            )}
+          </div>
+          <div>
+            <label htmlFor="my-seat" className="block text-sm font-medium text-gray-300 mb-2">
+              My Draft Slot
+            </label>
+            <select
+              id="my-seat"
+              className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+              value={mySeat === null ? '' : String(mySeat)}
+              onChange={(e) => setMySeat(e.target.value === '' ? null : parseInt(e.target.value, 10))}
+            >
+              <option value="">Not set</option>
+              {Array.from({ length: numTeams }, (_, teamIndex) => (
+                <option key={teamIndex} value={teamIndex}>
+                  {getTeamName(teams, teamIndex)}
+                </option>
+              ))}
+            </select>
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
-              Number of Teams
+              Draft Mode
             </label>
-            <div className="grid grid-cols-2 gap-3">
-              {TEAM_OPTIONS.map((teams) => (
+            <div className="grid grid-cols-3 gap-2">
+              {DRAFT_MODES.map((mode) => (
                 <button
-                  key={teams}
-                  onClick={() => setNumTeams(teams)}
-                  className={`px-4 py-3 rounded-md text-sm font-semibold transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 ${
-                    numTeams === teams
+                  key={mode}
+                  onClick={() => onDraftModeChange(mode)}
+                  className={`px-3 py-2 rounded-md text-sm font-semibold transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 ${
+                    draftMode === mode
                       ? 'bg-cyan-500 text-white shadow-md'
                       : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
                   }`}
-                  aria-pressed={numTeams === teams}
+                  aria-pressed={draftMode === mode}
                 >
-                  {teams} Teams
+                  {mode}
                 </button>
               ))}
             </div>
+            {draftMode === 'Live' && (
+              <p className="text-xs text-gray-500 mt-2">Drafted players are locked to the pick they were taken with, and the rest of the board re-flows around them.</p>
+            )}
+            {draftMode === 'Mock' && (
+              <div className="mt-3">
+                <label htmlFor="bot-strategy" className="block text-xs font-medium text-gray-400 mb-1">
+                  Bot Strategy
+                </label>
+                <select
+                  id="bot-strategy"
+                  className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                  value={botStrategy}
+                  onChange={(e) => onBotStrategyChange(e.target.value as BotStrategy)}
+                >
+                  {BOT_STRATEGIES.map((strategy) => (
+                    <option key={strategy} value={strategy}>
+                      {strategy}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <label className="block text-sm font-medium text-gray-300 mt-4 mb-2">
+              Board Order
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {BOARD_RANKINGS.map((ranking) => (
+                <button
+                  key={ranking}
+                  onClick={() => onBoardRankingChange(ranking)}
+                  disabled={ranking === 'VBD' && !hasProjections}
+                  className={`px-3 py-2 rounded-md text-sm font-semibold transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 disabled:opacity-40 disabled:cursor-not-allowed ${
+                    boardRanking === ranking
+                      ? 'bg-cyan-500 text-white shadow-md'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                  aria-pressed={boardRanking === ranking}
+                  title={ranking === 'VBD' && !hasProjections ? 'Add projected points to your rankings to use VBD' : undefined}
+                >
+                  {ranking === 'Source' ? 'Rankings' : 'VBD'}
+                </button>
+              ))}
+            </div>
+            {boardRanking === 'VBD' && (
+              <p className="text-xs text-gray-500 mt-2">Players are ordered by projected points over the replacement-level starter at their position.</p>
+            )}
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
               Draft Actions
             </label>
+            <div className="grid grid-cols-2 gap-2 mb-2">
+              <button
+                onClick={onUndo}
+                disabled={!canUndo}
+                className="px-3 py-2 rounded-md text-sm font-semibold transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Undo (Ctrl+Z)"
+              >
+                Undo
+              </button>
+              <button
+                onClick={onRedo}
+                disabled={!canRedo}
+                className="px-3 py-2 rounded-md text-sm font-semibold transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                Redo
+              </button>
+            </div>
              <button
                 onClick={onResetDraft}
                 className="w-full px-4 py-3 rounded-md text-sm font-semibold transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-red-500 bg-red-800/50 text-red-300 hover:bg-red-700/60"
@@ -98,6 +405,36 @@ const Controls: React.FC<ControlsProps> = ({
           </div>
         </div>
       </div>
+      {dataSource === 'Consensus' && (
+        <ConsensusEditor
+          settings={consensusSettings}
+          onChange={onConsensusSettingsChange}
+          players={consensusPlayers}
+          sourceNames={consensusSourceNames}
+        />
+      )}
+      <LeagueSettingsEditor settings={leagueSettings} onChange={onLeagueSettingsChange} />
+      <TeamNamesEditor teams={teams} onTeamChange={onTeamChange} />
+      <PlayerAliasesEditor aliases={playerAliases} onChange={onPlayerAliasesChange} players={players} />
+      <PickAdjustmentsEditor
+        players={players}
+        teams={teams}
+        numRounds={numRounds}
+        tradedPicks={tradedPicks}
+        onTradedPicksChange={onTradedPicksChange}
+        keepers={keepers}
+        onKeepersChange={onKeepersChange}
+        order={order}
+      />
+      {isImporterOpen && (
+        <RankingsImporter
+          onImport={(rankingsText) => {
+            setRawText(rankingsText);
+            setIsImporterOpen(false);
+          }}
+          onClose={() => setIsImporterOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,31 @@
+import React from 'react';
+import type { PositionRun, ScarcityAlert } from '../utils/draftAlerts';
+
+interface DraftAlertsProps {
+  runs: PositionRun[];
+  scarcity: ScarcityAlert[];
+}
+
+const DraftAlerts: React.FC<DraftAlertsProps> = ({ runs, scarcity }) => {
+  if (runs.length === 0 && scarcity.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 space-y-2" role="status" aria-live="polite" aria-label="Draft alerts">
+      {runs.map(run => (
+        <p key={`run-${run.position}`} className="p-3 bg-amber-900/30 border border-amber-800 text-amber-200 rounded-lg text-sm">
+          <strong className="font-semibold">{run.position} run:</strong> {run.count} of the last {run.window} picks were {run.position}s.
+        </p>
+      ))}
+      {scarcity.map(alert => (
+        <p key={`scarcity-${alert.position}`} className="p-3 bg-red-900/30 border border-red-800 text-red-200 rounded-lg text-sm">
+          <strong className="font-semibold">{alert.position} drying up:</strong> about {alert.expectedTaken} of the top {alert.supply} remaining {alert.position}s
+          {' '}may go in the {alert.picksUntilMyTurn} picks before your turn.
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default DraftAlerts;
@@ -1,30 +1,42 @@
-import React, { useState, useEffect } from 'react';
-import type { Player, DraftBoardData } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import type { Player, DraftBoardData, DraftOrder, LeagueSettings, Team } from '../types';
+import { getOverallPick, getPickOwner, getRoundDirection, RoundDirection } from '../utils/draftOrder';
+import { formatPosition, getPositionColorClasses } from '../utils/positions';
+import { assignRoster, getStarterFill, validateRoster } from '../utils/roster';
+import { getTeamName } from '../utils/teams';
+import type { ConsensusPlayer } from '../utils/consensus';
+import type { RankingChange } from '../utils/rankingDiff';
+import { RANK_CHANGE_COLORS, formatRankChange } from '../utils/rankingDiff';
+import { useLongPress } from '../hooks/useLongPress';
 
 interface DraftBoardProps {
   boardData: DraftBoardData;
-  numTeams: number;
+  order: DraftOrder;
+  // The teams in the league, in draft slot order; boardData is keyed by their ids.
+  teams: Team[];
   pickedPlayers: Set<number>;
+  keeperPicks: Map<number, string>;
   onTogglePlayerPicked: (rank: number) => void;
   onTogglePlayerHighlight: (rank: number) => void;
   onMarkUntilPicked: (rank: number) => void;
+  // Touch gestures: long-press opens the action sheet for a pick, a two-finger swipe left undoes.
+  onLongPressPlayer: (overallPick: number) => void;
+  onSwipeUndo: () => void;
+  // Notes keyed by player ID.
+  playerNotes: Record<string, string>;
+  // Value over replacement by player ID, for players with a projection.
+  valueOverReplacement: Map<string, number>;
+  // Cross-source consensus by player ID.
+  consensusById: Map<string, ConsensusPlayer>;
+  // Rank changes by player ID against the compared rankings, or null when they are hidden.
+  rankChangesById: Map<string, RankingChange> | null;
+  // The label of the rankings the changes are measured from.
+  rankChangesLabel: string;
+  mySeat: number | null;
+  onSelectSeat: (teamIndex: number) => void;
+  leagueSettings: LeagueSettings;
 }
 
-const getPositionColorClasses = (position: string): { border: string; text: string; } => {
-  switch (position.slice(0, 2).toUpperCase()) {
-    case 'WR':
-      return { border: 'border-l-sky-400', text: 'text-sky-400' };
-    case 'RB':
-      return { border: 'border-l-emerald-400', text: 'text-emerald-400' };
-    case 'TE':
-      return { border: 'border-l-amber-400', text: 'text-amber-400' };
-    case 'QB':
-      return { border: 'border-l-rose-400', text: 'text-rose-400' };
-    default:
-      return { border: 'border-l-gray-500', text: 'text-gray-400' };
-  }
-};
-
 const splitName = (fullName: string): { firstName: string; lastName: string } => {
   // Trim whitespace from the beginning and end of the full name
   const trimmedName = fullName.trim();
@@ -46,33 +58,106 @@ const splitName = (fullName: string): { firstName: string; lastName: string } =>
   return { firstName, lastName };
 }
 
+// Short labels for the optional player data, e.g. ["VOR +48", "Bye 10", "T2", "ADP 3.5", "251 pts"].
+const getPlayerDetails = (player: Player, vor: number | undefined): string[] => {
+  const details: string[] = [];
+  if (vor !== undefined) details.push(`VOR ${vor >= 0 ? '+' : ''}${Math.round(vor)}`);
+  if (player.byeWeek !== undefined) details.push(`Bye ${player.byeWeek}`);
+  if (player.tier !== undefined) details.push(`T${player.tier}`);
+  if (player.adp !== undefined) details.push(`ADP ${player.adp}`);
+  if (player.projectedPoints !== undefined) details.push(`${Math.round(player.projectedPoints)} pts`);
+  return details;
+};
+
+const describeRankChange = (change: RankingChange, fromLabel: string): string => {
+  switch (change.kind) {
+    case 'riser':
+      return `Up ${change.delta} from ${change.fromRank} in ${fromLabel}`;
+    case 'faller':
+      return `Down ${-change.delta!} from ${change.fromRank} in ${fromLabel}`;
+    case 'added':
+      return `Not in ${fromLabel}`;
+    default:
+      return `Unranked, was ${change.fromRank} in ${fromLabel}`;
+  }
+};
+
 interface PlayerCardProps {
     player: Player;
     overallPick: number;
     round: number;
+    direction: RoundDirection;
     isPicked: boolean;
+    isKeeper: boolean;
+    // The name of the team that now owns the pick, if it was traded away.
+    tradedTo: string | null;
     onTogglePicked: (rank: number) => void;
     isHighlighted: boolean;
     onToggleHighlight: (rank: number) => void;
     onMarkUntilPicked: (rank: number) => void;
+    onLongPress: (rank: number) => void;
+    note: string | undefined;
+    vor: number | undefined;
+    consensus: ConsensusPlayer | undefined;
+    rankChange: RankingChange | undefined;
+    rankChangesLabel: string;
     isMobile: boolean;
+    teamIndex: number;
+    tabIndex: number;
 }
 
-const PlayerCard: React.FC<PlayerCardProps> = ({ player, overallPick, round, isPicked, onTogglePicked, isHighlighted, onToggleHighlight, onMarkUntilPicked, isMobile }) => {
+const PlayerCard: React.FC<PlayerCardProps> = ({ player, overallPick, round, direction, isPicked, isKeeper, tradedTo, onTogglePicked, isHighlighted, onToggleHighlight, onMarkUntilPicked, onLongPress, note, vor, consensus, rankChange, rankChangesLabel, isMobile, teamIndex, tabIndex }) => {
   const roundColorClass = round % 2 === 0 ? 'bg-gray-800' : 'bg-gray-800/60';
   const positionColors = getPositionColorClasses(player.position);
-  const pickedClasses = isPicked ? 'opacity-40 filter grayscale' : 'hover:bg-gray-700/80 hover:scale-[1.02]';
+  // Keepers stay fully visible: they were never up for grabs, so greying them out would read as a pick.
+  const pickedClasses = isKeeper ? 'cursor-default' : isPicked ? 'opacity-40 filter grayscale' : 'hover:bg-gray-700/80 hover:scale-[1.02]';
+  const keeperClasses = isKeeper ? 'border-dashed bg-amber-900/30' : '';
   const highlightClasses = isHighlighted ? 'ring-2 ring-yellow-400 ring-offset-2 ring-offset-gray-900' : '';
-  const isForwardRound = round % 2 === 0;
   const { firstName, lastName } = splitName(player.name);
+  const positionLabel = formatPosition(player);
+  const details = getPlayerDetails(player, vor);
+  const teamLabel = player.team ? `, ${player.team}` : '';
+  const detailsLabel = details.length > 0 ? `, ${details.join(', ')}` : '';
+  const slotLabel = `${isKeeper ? ', Keeper' : ''}${tradedTo !== null ? `, Pick traded to ${tradedTo}` : ''}`;
+  const noteLabel = note ? `, Note: ${note}` : '';
+  const disputedSummary = consensus?.isDisputed
+    ? `Disputed: ranked ${consensus.minRank} to ${consensus.maxRank} across sources, average ${consensus.averageRank.toFixed(1)}, SD ${consensus.stdDev.toFixed(1)}`
+    : null;
+  const rankChangeSummary = rankChange && rankChange.kind !== 'unchanged' ? describeRankChange(rankChange, rankChangesLabel) : null;
+  const longPress = useLongPress(() => onLongPress(overallPick));
 
   return (
     <div 
-        className={`relative p-2 rounded-md h-28 flex flex-col justify-between text-left shadow-lg border border-gray-700/50 border-l-4 ${roundColorClass} ${positionColors.border} cursor-pointer transform transition-all duration-300 ease-in-out ${pickedClasses} ${highlightClasses}`}
-        onClick={() => onTogglePicked(overallPick)}
+        className={`relative p-2 rounded-md h-32 flex flex-col justify-between text-left shadow-lg border border-gray-700/50 border-l-4 ${roundColorClass} ${positionColors.border} ${keeperClasses} cursor-pointer transform transition-all duration-300 ease-in-out focus:outline-none focus-visible:outline focus-visible:outline-2 focus-visible:outline-cyan-400 ${pickedClasses} ${highlightClasses}`}
+        // Shift+click is the trackpad-friendly way to reach the middle-click action.
+        onClick={(e) => {
+            if (longPress.consumeLongPress()) return;
+            if (e.shiftKey) {
+                onMarkUntilPicked(overallPick);
+            } else {
+                onTogglePicked(overallPick);
+            }
+        }}
+        {...longPress.handlers}
+        onKeyDown={(e) => {
+            if (e.ctrlKey || e.metaKey || e.altKey) return;
+            const key = e.key.toLowerCase();
+            if (key === 'enter' || key === ' ') {
+                e.preventDefault();
+                onTogglePicked(overallPick);
+            } else if (key === 'h') {
+                e.preventDefault();
+                onToggleHighlight(overallPick);
+            } else if (key === 'd') {
+                e.preventDefault();
+                onMarkUntilPicked(overallPick);
+            }
+        }}
         onContextMenu={(e) => {
             e.preventDefault();
-            onToggleHighlight(overallPick);
+            if (!longPress.isTouch()) {
+                onToggleHighlight(overallPick);
+            }
         }}
         onAuxClick={(e) => {
             if (e.button === 1) { // Middle mouse button
@@ -82,18 +167,21 @@ const PlayerCard: React.FC<PlayerCardProps> = ({ player, overallPick, round, isP
         }}
         role="button"
         aria-pressed={isPicked}
-        tabIndex={0}
-        aria-label={`Pick ${player.name}, Rank ${player.rank}, Position ${player.position}. Click to toggle drafted status. Right-click to toggle highlight. Middle-click to mark all previous players as drafted.`}
+        tabIndex={tabIndex}
+        data-round={round}
+        data-team={teamIndex}
+        aria-label={`Pick ${overallPick}, Round ${round + 1}: ${player.name}, Rank ${player.rank}, Position ${positionLabel}${teamLabel}${detailsLabel}${slotLabel}${noteLabel}${disputedSummary ? `, ${disputedSummary}` : ''}${rankChangeSummary ? `, ${rankChangeSummary}` : ''}${isPicked ? ', Drafted' : ''}. Enter to toggle drafted status, H to toggle highlight, D to mark all previous players as drafted.`}
     >
       <div>
         <div className="flex justify-between items-start gap-2">
           <p className={`font-bold text-sm text-white truncate ${isPicked ? 'line-through' : ''}`} title={player.name}>
             {firstName}
           </p>
-          <div className="hidden lg:block">
+          <div className="hidden lg:block text-right">
             <p className={`text-xs font-mono font-bold flex-shrink-0 ${positionColors.text}`}>
-              {player.position}
+              {positionLabel}
             </p>
+            {player.team && <p className="text-[10px] font-mono text-gray-500">{player.team}</p>}
           </div>
         </div>
         <p className={`font-bold text-sm text-white truncate ${isPicked ? 'line-through' : ''}`} title={player.name}>
@@ -101,39 +189,98 @@ const PlayerCard: React.FC<PlayerCardProps> = ({ player, overallPick, round, isP
         </p>
         <div className="block lg:hidden">
           <p className={`text-xs font-mono font-bold flex-shrink-0 ${positionColors.text}`}>
-            {player.position}
+            {positionLabel}{player.team && <span className="text-gray-500 font-normal"> {player.team}</span>}
           </p>
         </div>
         <p className="text-xs text-gray-400">
           { isMobile ? `(Rk: ${player.rank})` : `(Rank: ${player.rank})` } 
         </p>
+        {details.length > 0 && (
+          <p className="text-[10px] text-gray-500 truncate" title={details.join(' · ')}>
+            {details.join(' · ')}
+          </p>
+        )}
       </div>
       <div className="flex justify-between items-center mt-1">
-        <svg
-            className={`w-5 h-5 text-gray-600 transition-transform duration-300 ${!isForwardRound ? 'transform -scale-x-100' : ''}`}
-            aria-hidden="true"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-            xmlns="http://www.w3.org/2000/svg"
-        >
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 8l4 4m0 0l-4 4m4-4H3"></path>
-        </svg>
-        <p className="text-xs text-gray-500 font-mono">
-            { isMobile ? `${overallPick}` : `Pick ${overallPick}` }
-        </p>
+        {direction === 'mixed' ? (
+          // Custom rounds don't run in a single direction, so there is no arrow to show.
+          <span className="w-5 h-5" aria-hidden="true"></span>
+        ) : (
+          <svg
+              className={`w-5 h-5 text-gray-600 transition-transform duration-300 ${direction === 'reverse' ? 'transform -scale-x-100' : ''}`}
+              aria-hidden="true"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              xmlns="http://www.w3.org/2000/svg"
+          >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 8l4 4m0 0l-4 4m4-4H3"></path>
+          </svg>
+        )}
+        <div className="flex items-center gap-1">
+          {note && (
+            <span className="text-[10px] text-sky-300" title={note} aria-hidden="true">✎</span>
+          )}
+          {disputedSummary && (
+            <span className="text-[10px] font-bold text-orange-400" title={disputedSummary} aria-hidden="true">±</span>
+          )}
+          {rankChangeSummary && (
+            <span className={`text-[10px] font-bold font-mono ${RANK_CHANGE_COLORS[rankChange!.kind]}`} title={rankChangeSummary} aria-hidden="true">
+              {formatRankChange(rankChange!)}
+            </span>
+          )}
+          {isKeeper && (
+            <span className="px-1 rounded text-[10px] font-bold bg-amber-500/20 text-amber-300" title="Keeper">K</span>
+          )}
+          {tradedTo !== null && (
+            <span className="px-1 rounded text-[10px] font-bold bg-purple-500/20 text-purple-300 max-w-[5rem] truncate" title={`Pick traded to ${tradedTo}`}>
+              →{tradedTo}
+            </span>
+          )}
+          <p className="text-xs text-gray-500 font-mono">
+              { isMobile ? `${overallPick}` : `Pick ${overallPick}` }
+          </p>
+        </div>
       </div>
     </div>
   );
 };
 
-const EmptyCard: React.FC<{ round: number }> = ({ round }) => {
+interface EmptyCardProps {
+  round: number;
+  teamIndex: number;
+  tabIndex: number;
+}
+
+// Focusable so arrow-key navigation can pass over slots without a player.
+const EmptyCard: React.FC<EmptyCardProps> = ({ round, teamIndex, tabIndex }) => {
   const roundColorClass = round % 2 === 0 ? 'bg-gray-800/20' : 'bg-gray-800/10';
-  return <div className={`p-2 rounded-md h-28 ${roundColorClass} border border-dashed border-gray-700`}></div>;
+  return (
+    <div
+      className={`p-2 rounded-md h-32 ${roundColorClass} border border-dashed border-gray-700 focus:outline-none focus-visible:outline focus-visible:outline-2 focus-visible:outline-cyan-400`}
+      tabIndex={tabIndex}
+      data-round={round}
+      data-team={teamIndex}
+      aria-label={`Round ${round + 1}, no player`}
+    ></div>
+  );
+};
+
+const SWIPE_UNDO_DISTANCE_PX = 80;
+
+const ARROW_MOVES: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
 };
 
-const DraftBoard: React.FC<DraftBoardProps> = ({ boardData, numTeams, pickedPlayers, onTogglePlayerPicked, onTogglePlayerHighlight, onMarkUntilPicked }) => {
+const DraftBoard: React.FC<DraftBoardProps> = ({ boardData, order, teams, pickedPlayers, keeperPicks, onTogglePlayerPicked, onTogglePlayerHighlight, onMarkUntilPicked, onLongPressPlayer, onSwipeUndo, playerNotes, valueOverReplacement, consensusById, rankChangesById, rankChangesLabel, mySeat, onSelectSeat, leagueSettings }) => {
   const [isMobile, setIsMobile] = useState(false);
+  // Roving tab stop: only the last focused cell is in the tab order, arrows move between cells.
+  const [activeCell, setActiveCell] = useState({ round: 0, teamIndex: 0 });
+  const gridRef = useRef<HTMLDivElement>(null);
+  const swipeStartX = useRef<number | null>(null);
 
   useEffect(() => {
     const mediaQuery = window.matchMedia('(max-width: 1024px)'); // Tailwind's 'lg' breakpoint
@@ -159,7 +306,65 @@ const DraftBoard: React.FC<DraftBoardProps> = ({ boardData, numTeams, pickedPlay
   }
 
   const numRounds = boardData[teamKeys[0]]?.length || 0;
+  // The board may have shrunk since the tab stop was set, so keep it on a cell that exists.
+  const tabStop = {
+    round: Math.min(activeCell.round, numRounds - 1),
+    teamIndex: Math.min(activeCell.teamIndex, teamKeys.length - 1),
+  };
+
+  // The players each team has actually drafted, in round order. Traded picks count for
+  // the team that owns them rather than the column they sit in.
+  const getDraftedPlayers = (teamIndex: number): Player[] => {
+    const drafted: Player[] = [];
+    for (let roundIndex = 0; roundIndex < numRounds; roundIndex++) {
+      teamKeys.forEach((teamId, columnIndex) => {
+        const player = boardData[teamId]?.[roundIndex];
+        const overallPick = getOverallPick(order, roundIndex, columnIndex);
+        if (player && pickedPlayers.has(overallPick) && getPickOwner(order, overallPick) === teamIndex) {
+          drafted.push(player);
+        }
+      });
+    }
+    return drafted;
+  };
   
+  const getCellPosition = (target: EventTarget): { round: number; teamIndex: number } | null => {
+    const cell = (target as HTMLElement).closest<HTMLElement>('[data-round]');
+    if (!cell) return null;
+    return { round: Number(cell.dataset.round), teamIndex: Number(cell.dataset.team) };
+  };
+
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    const move = ARROW_MOVES[e.key];
+    const position = getCellPosition(e.target);
+    if (!move || !position) return;
+    e.preventDefault();
+    const round = Math.min(Math.max(position.round + move[0], 0), numRounds - 1);
+    const teamIndex = Math.min(Math.max(position.teamIndex + move[1], 0), teamKeys.length - 1);
+    gridRef.current?.querySelector<HTMLElement>(`[data-round="${round}"][data-team="${teamIndex}"]`)?.focus();
+  };
+
+  // Two fingers so a one-finger swipe still scrolls the board sideways.
+  const handleTouchStart = (e: React.TouchEvent) => {
+    swipeStartX.current = e.touches.length === 2 ? (e.touches[0].clientX + e.touches[1].clientX) / 2 : null;
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (swipeStartX.current === null || e.changedTouches.length === 0) return;
+    const distance = e.changedTouches[0].clientX - swipeStartX.current;
+    swipeStartX.current = null;
+    if (distance < -SWIPE_UNDO_DISTANCE_PX) {
+      onSwipeUndo();
+    }
+  };
+
+  const handleGridFocus = (e: React.FocusEvent) => {
+    const position = getCellPosition(e.target);
+    if (position) {
+      setActiveCell(position);
+    }
+  };
+
   const getStyle = (teams: number) => {
     // On mobile screens, enforce a minimum width for player cards to prevent them
     // from becoming unreadably narrow. This enables horizontal scrolling.
@@ -169,18 +374,50 @@ const DraftBoard: React.FC<DraftBoardProps> = ({ boardData, numTeams, pickedPlay
   };
 
   return (
-    <div className="overflow-x-auto pb-4">
+    <div className="overflow-x-auto pb-4" onTouchStart={handleTouchStart} onTouchEnd={handleTouchEnd}>
       <div className="inline-block min-w-full">
-        <div className="grid gap-1.5" style={getStyle(numTeams)}>
+        <div
+          ref={gridRef}
+          className="grid gap-1.5"
+          style={getStyle(order.numTeams)}
+          onKeyDown={handleGridKeyDown}
+          onFocus={handleGridFocus}
+          aria-label="Draft board. Use the arrow keys to move between picks."
+          role="group"
+        >
           {/* Grid Headers */}
           <div className="sticky top-0 left-0 z-30 bg-gray-900"></div> {/* Blank cell for top-left corner */}
-          {teamKeys.map((teamName) => (
-            <div key={teamName} className="sticky top-0 z-10 bg-gray-900 pt-2">
-              <h2 className="bg-gray-700 text-cyan-300 p-2 text-center font-bold text-sm md:text-base rounded-t-md shadow-md">
-                {teamName}
-              </h2>
-            </div>
-          ))}
+          {teamKeys.map((teamId, teamIndex) => {
+            const isMySeat = teamIndex === mySeat;
+            const draftedPlayers = getDraftedPlayers(teamIndex);
+            const { filled, needed } = getStarterFill(assignRoster(draftedPlayers, leagueSettings), leagueSettings);
+            const rosterIssues = validateRoster(draftedPlayers, leagueSettings);
+            return (
+              <div key={teamId} className="sticky top-0 z-10 bg-gray-900 pt-2">
+                <h2>
+                  <button
+                    onClick={() => onSelectSeat(teamIndex)}
+                    className={`w-full p-2 text-center font-bold text-sm md:text-base rounded-t-md shadow-md transition-colors duration-200 ${
+                      isMySeat ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-cyan-300 hover:bg-gray-600'
+                    }`}
+                    aria-pressed={isMySeat}
+                    title={isMySeat ? 'This is your draft slot' : 'Set as your draft slot'}
+                  >
+                    <span className="block truncate">{getTeamName(teams, teamIndex)}{isMySeat && ' (You)'}</span>
+                    {teams[teamIndex]?.owner.trim() && (
+                      <span className="block truncate text-xs font-normal opacity-75">{teams[teamIndex].owner}</span>
+                    )}
+                  </button>
+                </h2>
+                <p
+                  className={`bg-gray-800 text-center text-xs font-mono py-1 ${rosterIssues.length > 0 ? 'text-red-400' : filled >= needed ? 'text-emerald-400' : 'text-gray-400'}`}
+                  title={rosterIssues.length > 0 ? rosterIssues.join('\n') : `${needed - filled} starters still needed`}
+                >
+                  {isMobile ? `${filled}/${needed}` : `Starters ${filled}/${needed}`}{rosterIssues.length > 0 && ' ⚠'}
+                </p>
+              </div>
+            );
+          })}
 
           {/* Grid Body */}
           {Array.from({ length: numRounds }).map((_, roundIndex) => (
@@ -195,28 +432,39 @@ const DraftBoard: React.FC<DraftBoardProps> = ({ boardData, numTeams, pickedPlay
                 </div>
               </div>
               
-              {teamKeys.map((teamName, teamIndex) => {
-                const player = boardData[teamName]?.[roundIndex] ?? null;
-                const isForwardRound = roundIndex % 2 === 0;
-                const pickInRound = isForwardRound ? teamIndex : numTeams - 1 - teamIndex;
-                const overallPick = roundIndex * numTeams + pickInRound + 1;
+              {teamKeys.map((teamId, teamIndex) => {
+                const player = boardData[teamId]?.[roundIndex] ?? null;
+                const overallPick = getOverallPick(order, roundIndex, teamIndex);
+                const owner = getPickOwner(order, overallPick);
+                const tabIndex = tabStop.round === roundIndex && tabStop.teamIndex === teamIndex ? 0 : -1;
 
                 return (
-                  <div key={`${teamName}-${roundIndex}`}>
+                  <div key={`${teamId}-${roundIndex}`} className={teamIndex === mySeat ? 'bg-cyan-500/10 rounded-md' : ''}>
                     {player ? (
                       <PlayerCard 
                         player={player} 
                         overallPick={overallPick} 
                         round={roundIndex}
+                        direction={getRoundDirection(order, roundIndex)}
                         isPicked={pickedPlayers.has(overallPick)}
+                        isKeeper={keeperPicks.has(overallPick)}
+                        tradedTo={owner !== teamIndex ? getTeamName(teams, owner) : null}
                         onTogglePicked={onTogglePlayerPicked}
                         isHighlighted={player.isHighlighted}
                         onToggleHighlight={onTogglePlayerHighlight}
                         onMarkUntilPicked={onMarkUntilPicked}
+                        onLongPress={onLongPressPlayer}
+                        note={playerNotes[player.id]}
+                        vor={valueOverReplacement.get(player.id)}
+                        consensus={consensusById.get(player.id)}
+                        rankChange={rankChangesById?.get(player.id)}
+                        rankChangesLabel={rankChangesLabel}
                         isMobile={isMobile}
+                        teamIndex={teamIndex}
+                        tabIndex={tabIndex}
                       />
                     ) : (
-                      <EmptyCard round={roundIndex} />
+                      <EmptyCard round={roundIndex} teamIndex={teamIndex} tabIndex={tabIndex} />
                     )}
                   </div>
                 );
@@ -0,0 +1,127 @@
+import React, { useState, useRef } from 'react';
+import type { DraftSummary } from '../types';
+
+export interface DraftLibraryControls {
+  drafts: DraftSummary[];
+  activeDraftId: string;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  // Returns an error message if the file could not be imported.
+  onImport: (fileText: string) => string | null;
+}
+
+const buttonClassName = "px-3 py-2 rounded-md text-sm font-semibold transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500 bg-gray-700 text-gray-300 hover:bg-gray-600";
+
+const DraftSwitcher: React.FC<DraftLibraryControls> = ({
+  drafts,
+  activeDraftId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+}) => {
+  const [renameValue, setRenameValue] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const activeDraft = drafts.find(d => d.id === activeDraftId);
+
+  const handleRenameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renameValue !== null && renameValue.trim()) {
+      onRename(activeDraftId, renameValue.trim());
+    }
+    setRenameValue(null);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete "${activeDraft?.name}"? This cannot be undone.`)) {
+      onDelete(activeDraftId);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      setImportError(onImport(await file.text()));
+    }
+  };
+
+  return (
+    <div className="mb-6 pb-6 border-b border-gray-700">
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="flex-1 min-w-[12rem]">
+          <label htmlFor="draft-switcher" className="block text-sm font-medium text-gray-300 mb-2">
+            Draft
+          </label>
+          {renameValue === null ? (
+            <select
+              id="draft-switcher"
+              className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+              value={activeDraftId}
+              onChange={(e) => onSwitch(e.target.value)}
+            >
+              {drafts.map((draft) => (
+                <option key={draft.id} value={draft.id}>
+                  {draft.name}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <form onSubmit={handleRenameSubmit} className="flex gap-2">
+              <input
+                id="draft-switcher"
+                autoFocus
+                className="flex-1 bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setRenameValue(null)}
+                aria-label="Draft name"
+              />
+              <button type="submit" className={buttonClassName}>Save</button>
+            </form>
+          )}
+        </div>
+        <button onClick={onCreate} className={buttonClassName}>New</button>
+        <button onClick={() => setRenameValue(activeDraft?.name ?? '')} className={buttonClassName} disabled={renameValue !== null}>
+          Rename
+        </button>
+        <button onClick={() => onDuplicate(activeDraftId)} className={buttonClassName}>Duplicate</button>
+        <button
+          onClick={handleDelete}
+          className="px-3 py-2 rounded-md text-sm font-semibold transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-red-500 bg-red-800/50 text-red-300 hover:bg-red-700/60"
+        >
+          Delete
+        </button>
+        <button onClick={() => onExport(activeDraftId)} className={buttonClassName} title="Download this draft as a JSON file">
+          Export
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClassName} title="Open a draft JSON file as a new draft">
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleImportFile}
+          aria-label="Import draft file"
+        />
+      </div>
+      {importError && (
+        <p className="mt-2 text-sm text-red-400" role="alert">
+          Import failed: {importError}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DraftSwitcher;
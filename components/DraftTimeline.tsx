@@ -0,0 +1,80 @@
+import React, { useEffect, useRef } from 'react';
+import type { DraftAction } from '../types';
+
+interface DraftTimelineProps {
+  past: DraftAction[];
+  future: DraftAction[];
+  onGoTo: (position: number) => void;
+}
+
+const KIND_COLORS: Record<DraftAction['kind'], string> = {
+  'pick': 'text-cyan-300',
+  'bot-pick': 'text-gray-300',
+  'unpick': 'text-amber-300',
+  'mark-until': 'text-cyan-300',
+  'highlight': 'text-yellow-300',
+  'reset': 'text-red-300',
+};
+
+const DraftTimeline: React.FC<DraftTimelineProps> = ({ past, future, onGoTo }) => {
+  const listRef = useRef<HTMLOListElement>(null);
+  const currentRef = useRef<HTMLLIElement>(null);
+
+  // Keep the most recent action in view as the draft advances. Only the list scrolls, so
+  // bot picks never move the page away from the board.
+  useEffect(() => {
+    const list = listRef.current;
+    const current = currentRef.current;
+    if (!list || !current) return;
+    if (current.offsetTop < list.scrollTop) {
+      list.scrollTop = current.offsetTop;
+    } else if (current.offsetTop + current.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = current.offsetTop + current.offsetHeight - list.clientHeight;
+    }
+  }, [past.length]);
+
+  return (
+    <aside className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 p-4 rounded-lg shadow-lg" aria-label="Draft timeline">
+      <h2 className="text-lg font-bold text-cyan-300">Timeline</h2>
+      <p className="text-xs text-gray-500 mt-1">Click an entry to rewind or replay to it. Ctrl+Z / Ctrl+Shift+Z to undo and redo.</p>
+      <ol ref={listRef} className="relative mt-3 max-h-96 overflow-y-auto text-xs space-y-0.5">
+        <li>
+          <button
+            onClick={() => onGoTo(0)}
+            className={`w-full text-left px-2 py-1 rounded hover:bg-gray-700 ${past.length === 0 ? 'bg-gray-700/60 text-white' : 'text-gray-500'}`}
+            aria-current={past.length === 0 ? 'step' : undefined}
+          >
+            Draft start
+          </button>
+        </li>
+        {past.map((action, index) => {
+          const isCurrent = index === past.length - 1;
+          return (
+            <li key={action.id} ref={isCurrent ? currentRef : undefined}>
+              <button
+                onClick={() => onGoTo(index + 1)}
+                className={`w-full text-left px-2 py-1 rounded hover:bg-gray-700 ${KIND_COLORS[action.kind]} ${isCurrent ? 'bg-gray-700/60 font-semibold' : ''}`}
+                aria-current={isCurrent ? 'step' : undefined}
+              >
+                {action.label}
+              </button>
+            </li>
+          );
+        })}
+        {future.map((action, index) => (
+          <li key={action.id}>
+            <button
+              onClick={() => onGoTo(past.length + index + 1)}
+              className="w-full text-left px-2 py-1 rounded hover:bg-gray-700 text-gray-600 line-through"
+              title="Undone. Click to redo up to here."
+            >
+              {action.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </aside>
+  );
+};
+
+export default DraftTimeline;
@@ -0,0 +1,84 @@
+import React from 'react';
+import type { LeagueSettings, RosterSlot } from '../types';
+import { ROSTER_SLOTS, ROSTER_POSITIONS, getStarterCount, getTotalRosterSize } from '../utils/roster';
+
+interface LeagueSettingsEditorProps {
+  settings: LeagueSettings;
+  onChange: (settings: LeagueSettings) => void;
+}
+
+const MAX_SLOT_COUNT = 20;
+
+const parseCount = (value: string): number => {
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? 0 : Math.min(Math.max(parsed, 0), MAX_SLOT_COUNT);
+};
+
+const inputClassName = "w-full bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+const LeagueSettingsEditor: React.FC<LeagueSettingsEditorProps> = ({ settings, onChange }) => {
+  const handleSlotChange = (slot: RosterSlot, value: string) => {
+    onChange({ ...settings, rosterSlots: { ...settings.rosterSlots, [slot]: parseCount(value) } });
+  };
+
+  const handleLimitChange = (position: string, value: string) => {
+    const positionLimits = { ...settings.positionLimits };
+    if (value === '') {
+      delete positionLimits[position];
+    } else {
+      positionLimits[position] = parseCount(value);
+    }
+    onChange({ ...settings, positionLimits });
+  };
+
+  return (
+    <details className="mt-6 border-t border-gray-700 pt-4">
+      <summary className="cursor-pointer text-sm font-medium text-gray-300">
+        League Settings
+        <span className="ml-2 text-xs text-gray-500">
+          ({getStarterCount(settings)} starters, {getTotalRosterSize(settings)} roster spots)
+        </span>
+      </summary>
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <fieldset>
+          <legend className="text-xs font-medium text-gray-400 mb-2">Roster Slots</legend>
+          <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+            {ROSTER_SLOTS.map((slot) => (
+              <label key={slot} className="text-xs text-gray-400">
+                {slot}
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_SLOT_COUNT}
+                  className={inputClassName}
+                  value={settings.rosterSlots[slot]}
+                  onChange={(e) => handleSlotChange(slot, e.target.value)}
+                />
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <fieldset>
+          <legend className="text-xs font-medium text-gray-400 mb-2">Position Limits (blank for no limit)</legend>
+          <div className="grid grid-cols-3 gap-2">
+            {ROSTER_POSITIONS.map((position) => (
+              <label key={position} className="text-xs text-gray-400">
+                Max {position}
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_SLOT_COUNT}
+                  className={inputClassName}
+                  value={settings.positionLimits[position] ?? ''}
+                  onChange={(e) => handleLimitChange(position, e.target.value)}
+                />
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      </div>
+    </details>
+  );
+};
+
+export default LeagueSettingsEditor;
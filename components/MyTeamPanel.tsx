@@ -0,0 +1,77 @@
+import React from 'react';
+import type { DraftOrder, Player } from '../types';
+import { getNextOpenPick, getOwnedPicks, getPickSlot } from '../utils/draftOrder';
+import { formatPosition, getPositionColorClasses } from '../utils/positions';
+
+interface MyTeamPanelProps {
+  mySeat: number;
+  teamName: string;
+  order: DraftOrder;
+  draftOrder: Player[];
+  pickedPlayers: Set<number>;
+}
+
+const UPCOMING_PICKS_SHOWN = 5;
+const PLAYERS_PER_PICK = 5;
+
+const MyTeamPanel: React.FC<MyTeamPanelProps> = ({ mySeat, teamName, order, draftOrder, pickedPlayers }) => {
+  const totalPicks = draftOrder.length;
+
+  const currentPick = getNextOpenPick(pickedPlayers);
+
+  const upcomingPicks = getOwnedPicks(order, mySeat, totalPicks)
+    .filter(pick => pick >= currentPick && !pickedPlayers.has(pick))
+    .slice(0, UPCOMING_PICKS_SHOWN);
+
+  // Players whose projected slot is at or after the pick, minus anyone already drafted, in
+  // the board's order so the panel agrees with it when the board is sorted by value.
+  const getProjectedAvailable = (overallPick: number): Player[] => {
+    return draftOrder
+      .slice(overallPick - 1)
+      .filter((_, index) => !pickedPlayers.has(overallPick + index))
+      .slice(0, PLAYERS_PER_PICK);
+  };
+
+  return (
+    <aside className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 p-4 rounded-lg shadow-lg" aria-label="My upcoming picks">
+      <h2 className="text-lg font-bold text-cyan-300">{teamName} (You)</h2>
+      {currentPick <= totalPicks && (
+        <p className="text-xs text-gray-400 mt-1">
+          {upcomingPicks[0] === currentPick ? "You're on the clock" : `Current pick: ${currentPick}`}
+        </p>
+      )}
+
+      {upcomingPicks.length === 0 ? (
+        <p className="text-sm text-gray-400 mt-4">No picks remaining.</p>
+      ) : (
+        <ol className="mt-4 space-y-4">
+          {upcomingPicks.map(pick => {
+            const { round } = getPickSlot(order, pick);
+            return (
+              <li key={pick}>
+                <div className="flex justify-between items-baseline text-sm font-semibold text-gray-200 border-b border-gray-700 pb-1 mb-2">
+                  <span>Pick {pick}</span>
+                  <span className="text-xs text-gray-500 font-mono">Rd {round + 1}</span>
+                </div>
+                <ul className="space-y-1">
+                  {getProjectedAvailable(pick).map(player => (
+                    <li key={player.lineIndex} className="flex justify-between gap-2 text-xs">
+                      <span className={`truncate ${player.isHighlighted ? 'text-yellow-300' : 'text-gray-300'}`}>
+                        {player.rank}. {player.name}
+                      </span>
+                      <span className={`font-mono font-bold ${getPositionColorClasses(player.position).text}`}>
+                        {formatPosition(player)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </aside>
+  );
+};
+
+export default MyTeamPanel;
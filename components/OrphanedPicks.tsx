@@ -0,0 +1,57 @@
+import React from 'react';
+import type { Team } from '../types';
+import type { OrphanedPick } from '../utils/picks';
+import { getTeamName } from '../utils/teams';
+
+interface OrphanedPicksProps {
+  picks: OrphanedPick[];
+  // How each player was spelled when last listed, by player ID.
+  playerNames: Record<string, string>;
+  teams: Team[];
+  onDiscard: () => void;
+}
+
+const describePick = (pick: OrphanedPick, teams: Team[]): string => {
+  switch (pick.kind) {
+    case 'keeper':
+      return `Keeper for ${getTeamName(teams, pick.keeper!.teamIndex)}, Round ${pick.keeper!.round + 1}`;
+    case 'pick':
+      return `Pick ${pick.overallPick}`;
+    default:
+      return 'Drafted';
+  }
+};
+
+const OrphanedPicks: React.FC<OrphanedPicksProps> = ({ picks, playerNames, teams, onDiscard }) => {
+  if (picks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 p-3 bg-orange-900/30 border border-orange-800 text-orange-200 rounded-lg text-sm" role="status" aria-live="polite">
+      <div className="flex flex-wrap justify-between items-start gap-2">
+        <p>
+          <strong className="font-semibold">
+            {picks.length} {picks.length === 1 ? 'pick no longer matches' : 'picks no longer match'} a player in the rankings.
+          </strong>
+          {' '}They are left off the board and come back if the player does, e.g. once a misspelled name is fixed.
+        </p>
+        <button
+          onClick={onDiscard}
+          className="px-3 py-1 rounded-md text-xs font-semibold bg-orange-800/60 text-orange-100 hover:bg-orange-700/60 focus:outline-none focus:ring-2 focus:ring-orange-500"
+        >
+          Discard
+        </button>
+      </div>
+      <ul className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+        {picks.map(pick => (
+          <li key={`${pick.kind}-${pick.overallPick ?? ''}-${pick.playerId}`}>
+            {describePick(pick, teams)}: {playerNames[pick.playerId] ?? <span className="capitalize">{pick.playerId}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default OrphanedPicks;
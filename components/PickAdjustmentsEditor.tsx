@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import type { DraftOrder, Keeper, Player, Team } from '../types';
+import { getKeeperPick } from '../utils/draftOrder';
+import { getTeamName } from '../utils/teams';
+
+interface PickAdjustmentsEditorProps {
+  players: Player[];
+  // The teams in the league, in draft slot order.
+  teams: Team[];
+  numRounds: number;
+  tradedPicks: Map<number, number>;
+  onTradedPicksChange: (tradedPicks: Map<number, number>) => void;
+  keepers: Keeper[];
+  onKeepersChange: (keepers: Keeper[]) => void;
+  order: DraftOrder;
+}
+
+const inputClassName = "w-full bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+const addButtonClassName = "px-3 py-1 rounded-md text-sm font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed";
+const removeButtonClassName = "text-xs text-red-400 hover:text-red-300";
+
+const PickAdjustmentsEditor: React.FC<PickAdjustmentsEditorProps> = ({ players, teams, numRounds, tradedPicks, onTradedPicksChange, keepers, onKeepersChange, order }) => {
+  const numTeams = teams.length;
+  const totalPicks = numTeams * numRounds;
+
+  const [tradePick, setTradePick] = useState('');
+  const [tradeTeam, setTradeTeam] = useState(0);
+  const [keeperTeam, setKeeperTeam] = useState(0);
+  const [keeperRound, setKeeperRound] = useState(0);
+  const [keeperId, setKeeperId] = useState<string | null>(null);
+
+  const parsedTradePick = parseInt(tradePick, 10);
+  const isTradePickValid = parsedTradePick >= 1 && parsedTradePick <= totalPicks;
+  const keptIds = new Set(keepers.map(k => k.playerId));
+
+  const handleAddTrade = () => {
+    if (!isTradePickValid) return;
+    onTradedPicksChange(new Map(tradedPicks).set(parsedTradePick, tradeTeam));
+    setTradePick('');
+  };
+
+  const handleRemoveTrade = (overallPick: number) => {
+    const newTrades = new Map(tradedPicks);
+    newTrades.delete(overallPick);
+    onTradedPicksChange(newTrades);
+  };
+
+  const handleAddKeeper = () => {
+    if (keeperId === null) return;
+    // A team keeps at most one player per round, so a new keeper replaces the old one.
+    const others = keepers.filter(k => !(k.teamIndex === keeperTeam && k.round === keeperRound) && k.playerId !== keeperId);
+    onKeepersChange([...others, { teamIndex: keeperTeam, round: keeperRound, playerId: keeperId }]);
+    setKeeperId(null);
+  };
+
+  const getPlayerName = (playerId: string) => players.find(p => p.id === playerId)?.name ?? playerId;
+  const sortedTrades = Array.from(tradedPicks.entries()).sort(([a], [b]) => a - b);
+  const sortedKeepers = [...keepers].sort((a, b) => a.teamIndex - b.teamIndex || a.round - b.round);
+
+  return (
+    <details className="mt-6 border-t border-gray-700 pt-4">
+      <summary className="cursor-pointer text-sm font-medium text-gray-300">
+        Traded Picks &amp; Keepers
+        <span className="ml-2 text-xs text-gray-500">
+          ({tradedPicks.size} traded, {keepers.length} kept)
+        </span>
+      </summary>
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+        <fieldset>
+          <legend className="text-xs font-medium text-gray-400 mb-2">Traded Picks</legend>
+          <div className="flex items-end gap-2">
+            <label className="text-xs text-gray-400 flex-1">
+              Overall pick
+              <input
+                type="number"
+                min={1}
+                max={totalPicks}
+                className={inputClassName}
+                value={tradePick}
+                onChange={(e) => setTradePick(e.target.value)}
+              />
+            </label>
+            <label className="text-xs text-gray-400 flex-1">
+              Now owned by
+              <select className={inputClassName} value={tradeTeam} onChange={(e) => setTradeTeam(Number(e.target.value))}>
+                {Array.from({ length: numTeams }, (_, teamIndex) => (
+                  <option key={teamIndex} value={teamIndex}>{getTeamName(teams, teamIndex)}</option>
+                ))}
+              </select>
+            </label>
+            <button onClick={handleAddTrade} disabled={!isTradePickValid} className={addButtonClassName}>Add</button>
+          </div>
+          <ul className="mt-2 space-y-1">
+            {sortedTrades.map(([overallPick, teamIndex]) => (
+              <li key={overallPick} className="flex justify-between text-xs text-gray-300">
+                <span>Pick {overallPick} → {getTeamName(teams, teamIndex)}</span>
+                <button onClick={() => handleRemoveTrade(overallPick)} className={removeButtonClassName}>Remove</button>
+              </li>
+            ))}
+          </ul>
+        </fieldset>
+        <fieldset>
+          <legend className="text-xs font-medium text-gray-400 mb-2">Keepers</legend>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-400">
+              Team
+              <select className={inputClassName} value={keeperTeam} onChange={(e) => setKeeperTeam(Number(e.target.value))}>
+                {Array.from({ length: numTeams }, (_, teamIndex) => (
+                  <option key={teamIndex} value={teamIndex}>{getTeamName(teams, teamIndex)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-400">
+              Round
+              <select className={inputClassName} value={keeperRound} onChange={(e) => setKeeperRound(Number(e.target.value))}>
+                {Array.from({ length: numRounds }, (_, round) => (
+                  <option key={round} value={round}>Round {round + 1}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="mt-2 flex items-end gap-2">
+            <label className="text-xs text-gray-400 flex-1">
+              Player
+              <select
+                className={inputClassName}
+                value={keeperId ?? ''}
+                onChange={(e) => setKeeperId(e.target.value === '' ? null : e.target.value)}
+              >
+                <option value="">Select a player</option>
+                {players.filter(p => !keptIds.has(p.id)).map(p => (
+                  <option key={p.lineIndex} value={p.id}>{p.rank}. {p.name} ({p.position})</option>
+                ))}
+              </select>
+            </label>
+            <button onClick={handleAddKeeper} disabled={keeperId === null} className={addButtonClassName}>Add</button>
+          </div>
+          <ul className="mt-2 space-y-1">
+            {sortedKeepers.map((keeper) => {
+              // A keeper whose slot was traded away uses another pick the team owns in that round, if any.
+              const overallPick = getKeeperPick(order, keeper);
+              return (
+                <li key={`${keeper.teamIndex}-${keeper.round}`} className="flex justify-between gap-2 text-xs text-gray-300">
+                  <span>
+                    {getTeamName(teams, keeper.teamIndex)}, Round {keeper.round + 1}: {getPlayerName(keeper.playerId)}
+                    {overallPick === null
+                      ? <span className="ml-1 text-orange-400">(no pick in this round, not on the board)</span>
+                      : <span className="ml-1 text-gray-500">(Pick {overallPick})</span>}
+                  </span>
+                  <button onClick={() => onKeepersChange(keepers.filter(k => k !== keeper))} className={removeButtonClassName}>Remove</button>
+                </li>
+              );
+            })}
+          </ul>
+        </fieldset>
+      </div>
+    </details>
+  );
+};
+
+export default PickAdjustmentsEditor;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import type { Player } from '../types';
+import { formatPosition } from '../utils/positions';
+
+interface PlayerActionSheetProps {
+  player: Player;
+  overallPick: number;
+  note: string;
+  isQueued: boolean;
+  onToggleHighlight: () => void;
+  onMarkUntilPicked: () => void;
+  onSaveNote: (note: string) => void;
+  onToggleQueue: () => void;
+  onClose: () => void;
+}
+
+const actionClassName = "w-full px-4 py-3 rounded-md text-left text-sm font-semibold bg-gray-700 text-gray-200 hover:bg-gray-600 active:bg-gray-600";
+
+// The touch stand-in for right- and middle-click, opened by long-pressing a player card.
+const PlayerActionSheet: React.FC<PlayerActionSheetProps> = ({ player, overallPick, note, isQueued, onToggleHighlight, onMarkUntilPicked, onSaveNote, onToggleQueue, onClose }) => {
+  const [isEditingNote, setIsEditingNote] = useState(false);
+  const [noteText, setNoteText] = useState(note);
+
+  // Each action closes the sheet, like a native action sheet.
+  const runAndClose = (action: () => void) => () => {
+    action();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-end justify-center" role="dialog" aria-modal="true" aria-labelledby="action-sheet-title" onClick={onClose}>
+      <div className="bg-gray-800 border-t border-gray-700 rounded-t-xl shadow-xl w-full max-w-lg p-4 space-y-2" onClick={(e) => e.stopPropagation()}>
+        <h2 id="action-sheet-title" className="text-center text-sm text-gray-400 pb-2">
+          <span className="font-bold text-white">{player.name}</span> · {formatPosition(player)} · Pick {overallPick}
+        </h2>
+        {isEditingNote ? (
+          <>
+            <textarea
+              rows={3}
+              autoFocus
+              className="w-full bg-gray-900 border border-gray-600 rounded-md p-3 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+              placeholder="e.g. Injury risk, wait until round 5"
+              value={noteText}
+              onChange={(e) => setNoteText(e.target.value)}
+              aria-label={`Note for ${player.name}`}
+            />
+            <button onClick={runAndClose(() => onSaveNote(noteText.trim()))} className={`${actionClassName} text-center bg-cyan-600 hover:bg-cyan-500`}>
+              Save Note
+            </button>
+          </>
+        ) : (
+          <>
+            <button onClick={runAndClose(onToggleHighlight)} className={actionClassName}>
+              {player.isHighlighted ? 'Remove Highlight' : 'Highlight'}
+            </button>
+            <button onClick={runAndClose(onMarkUntilPicked)} className={actionClassName}>
+              Draft All Before
+            </button>
+            <button onClick={() => setIsEditingNote(true)} className={actionClassName}>
+              {note ? 'Edit Note' : 'Add Note'}
+            </button>
+            <button onClick={runAndClose(onToggleQueue)} className={actionClassName}>
+              {isQueued ? 'Remove from Queue' : 'Move to Queue'}
+            </button>
+          </>
+        )}
+        <button onClick={onClose} className={`${actionClassName} text-center text-gray-400`}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PlayerActionSheet;
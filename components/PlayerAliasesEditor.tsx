@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import type { Player } from '../types';
+import { BUILT_IN_ALIAS_COUNT, normalizeName } from '../utils/playerIdentity';
+
+interface PlayerAliasesEditorProps {
+  // Alias name → player name, both as typed.
+  aliases: Record<string, string>;
+  onChange: (aliases: Record<string, string>) => void;
+  // The players on the board, suggested as alias targets.
+  players: Player[];
+}
+
+const inputClassName = "w-full bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+const PlayerAliasesEditor: React.FC<PlayerAliasesEditorProps> = ({ aliases, onChange, players }) => {
+  const [alias, setAlias] = useState('');
+  const [target, setTarget] = useState('');
+  const entries = Object.entries(aliases);
+  const canAdd = normalizeName(alias) !== '' && normalizeName(target) !== '' && normalizeName(alias) !== normalizeName(target);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+    onChange({ ...aliases, [alias.trim()]: target.trim() });
+    setAlias('');
+    setTarget('');
+  };
+
+  const handleRemove = (name: string) => {
+    const next = { ...aliases };
+    delete next[name];
+    onChange(next);
+  };
+
+  return (
+    <details className="mt-6 border-t border-gray-700 pt-4">
+      <summary className="cursor-pointer text-sm font-medium text-gray-300">
+        Player Aliases
+        <span className="ml-2 text-xs text-gray-500">({entries.length} custom, {BUILT_IN_ALIAS_COUNT} built in)</span>
+      </summary>
+      <p className="mt-3 text-xs text-gray-500">
+        Names are already matched regardless of punctuation, capitalization and suffixes such as Jr. Add an alias when
+        a source uses a nickname, so notes, the queue and consensus rankings treat both names as one player.
+      </p>
+      <form onSubmit={handleAdd} className="mt-3 grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2 items-end">
+        <label className="text-xs text-gray-400">
+          Alias
+          <input
+            type="text"
+            className={inputClassName}
+            placeholder="e.g. Hollywood Brown"
+            value={alias}
+            onChange={(e) => setAlias(e.target.value)}
+          />
+        </label>
+        <label className="text-xs text-gray-400">
+          Same player as
+          <input
+            type="text"
+            className={inputClassName}
+            placeholder="e.g. Marquise Brown"
+            list="player-alias-targets"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+          />
+        </label>
+        <datalist id="player-alias-targets">
+          {players.map(p => <option key={p.lineIndex} value={p.name} />)}
+        </datalist>
+        <button
+          type="submit"
+          disabled={!canAdd}
+          className="px-3 py-1.5 rounded-md text-xs font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Add Alias
+        </button>
+      </form>
+      {entries.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {entries.map(([name, player]) => (
+            <li key={name} className="flex items-center gap-2">
+              <span className="text-gray-200">{name}</span>
+              <span className="text-gray-500">→</span>
+              <span className="flex-1 text-gray-300">{player}</span>
+              <button
+                onClick={() => handleRemove(name)}
+                className="text-xs text-red-400 hover:text-red-300"
+                aria-label={`Remove alias ${name}`}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+};
+
+export default PlayerAliasesEditor;
@@ -0,0 +1,95 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import type { AvailablePlayer } from '../types';
+import { formatPosition, getPositionColorClasses } from '../utils/positions';
+
+interface PlayerSearchPaletteProps {
+  // Drafting acts on each option's projected overall pick.
+  options: AvailablePlayer[];
+  onSelect: (overallPick: number) => void;
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 8;
+
+const PlayerSearchPalette: React.FC<PlayerSearchPaletteProps> = ({ options, onSelect, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Focus the search on open and hand focus back to where it was on close.
+  useEffect(() => {
+    const previousFocus = document.activeElement as HTMLElement | null;
+    inputRef.current?.focus();
+    return () => previousFocus?.focus();
+  }, []);
+
+  // Options come in board order, which the results keep.
+  const results = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return options
+      .filter(({ player }) => player.name.toLowerCase().includes(needle))
+      .slice(0, MAX_RESULTS);
+  }, [options, query]);
+
+  const handleQueryChange = (text: string) => {
+    setQuery(text);
+    setActiveIndex(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      onSelect(results[activeIndex].overallPick);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-start justify-center p-4 pt-24" role="dialog" aria-modal="true" aria-label="Draft a player by name" onClick={onClose}>
+      <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl w-full max-w-lg p-3" onClick={(e) => e.stopPropagation()}>
+        <input
+          ref={inputRef}
+          type="text"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="player-search-results"
+          aria-activedescendant={results[activeIndex] ? `player-search-${results[activeIndex].player.lineIndex}` : undefined}
+          className="w-full bg-gray-900 border border-gray-600 rounded-md px-3 py-2 text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+          placeholder="Type a player name, then press Enter to draft"
+          value={query}
+          onChange={(e) => handleQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+        />
+        <ul id="player-search-results" role="listbox" className="mt-2 space-y-1">
+          {results.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-gray-500">No available players match.</li>
+          ) : results.map(({ player, overallPick }, index) => (
+            <li
+              key={player.lineIndex}
+              id={`player-search-${player.lineIndex}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`flex items-center gap-3 px-3 py-2 rounded-md text-sm cursor-pointer ${index === activeIndex ? 'bg-cyan-600/40 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => onSelect(overallPick)}
+            >
+              <span className="w-8 text-right text-xs font-mono text-gray-500">{player.rank}</span>
+              <span className="flex-1 truncate">{player.name}</span>
+              <span className={`text-xs font-mono ${getPositionColorClasses(player.position).text}`}>{formatPosition(player)}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default PlayerSearchPalette;
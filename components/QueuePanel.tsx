@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import type { Player } from '../types';
+import { formatPosition, getPositionColorClasses } from '../utils/positions';
+
+interface QueuePanelProps {
+  // IDs of the queued players that are still available, in the order the user wants them.
+  queue: string[];
+  players: Player[];
+  onRemove: (playerId: string) => void;
+  onReorder: (queue: string[]) => void;
+  autoPick: boolean;
+  onAutoPickChange: (autoPick: boolean) => void;
+  // Auto-pick only applies while picks are being recorded.
+  canAutoPick: boolean;
+}
+
+const moveItem = (items: string[], from: number, to: number): string[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+const QueuePanel: React.FC<QueuePanelProps> = ({ queue, players, onRemove, onReorder, autoPick, onAutoPickChange, canAutoPick }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onReorder(moveItem(queue, dragIndex, index));
+    }
+    setDragIndex(null);
+  };
+
+  return (
+    <aside className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 p-4 rounded-lg shadow-lg" aria-label="My queue">
+      <h2 className="text-lg font-bold text-cyan-300">Queue</h2>
+      <p className="text-xs text-gray-500 mt-1">Drag to reorder. Drafted players drop out.</p>
+      <label className={`mt-2 flex items-center gap-2 text-xs ${canAutoPick ? 'text-gray-300' : 'text-gray-500'}`}>
+        <input
+          type="checkbox"
+          checked={autoPick}
+          onChange={(e) => onAutoPickChange(e.target.checked)}
+          className="rounded border-gray-600 bg-gray-900 text-cyan-500 focus:ring-cyan-500"
+        />
+        Auto-pick the top player when I'm on the clock
+        {!canAutoPick && ' (live and mock modes)'}
+      </label>
+      {queue.length === 0 ? (
+        <p className="text-sm text-gray-400 mt-3">Every queued player has been drafted.</p>
+      ) : (
+        <ol className="mt-3 space-y-1 text-sm">
+          {queue.map((playerId, index) => {
+            const player = players.find(p => p.id === playerId);
+            const name = player?.name ?? playerId;
+            return (
+              <li
+                key={playerId}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => setDragIndex(null)}
+                className={`flex items-center gap-2 px-1 rounded cursor-move ${dragIndex === index ? 'opacity-50' : ''} ${index === 0 ? 'bg-cyan-500/10' : ''}`}
+              >
+                <span className="w-5 text-right text-xs text-gray-500 font-mono">{index + 1}</span>
+                <span className="flex-1 truncate text-gray-200" title={name}>{name}</span>
+                {player && (
+                  <span className={`text-xs font-mono ${getPositionColorClasses(player.position).text}`}>{formatPosition(player)}</span>
+                )}
+                <button
+                  onClick={() => onReorder(moveItem(queue, index, index - 1))}
+                  disabled={index === 0}
+                  className="text-xs text-gray-400 hover:text-white disabled:opacity-30"
+                  aria-label={`Move ${name} up`}
+                >
+                  ▲
+                </button>
+                <button
+                  onClick={() => onReorder(moveItem(queue, index, index + 1))}
+                  disabled={index === queue.length - 1}
+                  className="text-xs text-gray-400 hover:text-white disabled:opacity-30"
+                  aria-label={`Move ${name} down`}
+                >
+                  ▼
+                </button>
+                <button onClick={() => onRemove(playerId)} className="text-xs text-red-400 hover:text-red-300" aria-label={`Remove ${name} from queue`}>
+                  &times;
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </aside>
+  );
+};
+
+export default QueuePanel;
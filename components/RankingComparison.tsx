@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import type { RankingSnapshot } from '../types';
+import type { RankingChange, RankingChangeKind, RankingOption } from '../utils/rankingDiff';
+import { RANK_CHANGE_COLORS, formatRankChange } from '../utils/rankingDiff';
+import { getPositionColorClasses } from '../utils/positions';
+
+interface RankingComparisonProps {
+  options: RankingOption[];
+  fromId: string;
+  toId: string;
+  onFromChange: (id: string) => void;
+  onToChange: (id: string) => void;
+  changes: RankingChange[];
+  showOnBoard: boolean;
+  onShowOnBoardChange: (show: boolean) => void;
+  snapshots: RankingSnapshot[];
+  onSaveSnapshot: (name: string) => void;
+  onDeleteSnapshot: (id: string) => void;
+}
+
+type ChangeFilter = 'all' | Exclude<RankingChangeKind, 'unchanged'>;
+
+const FILTER_LABELS: Record<ChangeFilter, string> = {
+  all: 'All',
+  riser: 'Risers',
+  faller: 'Fallers',
+  added: 'Added',
+  removed: 'Removed',
+};
+
+const selectClassName = "w-full bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+const RankingComparison: React.FC<RankingComparisonProps> = ({
+  options,
+  fromId,
+  toId,
+  onFromChange,
+  onToChange,
+  changes,
+  showOnBoard,
+  onShowOnBoardChange,
+  snapshots,
+  onSaveSnapshot,
+  onDeleteSnapshot,
+}) => {
+  const [filter, setFilter] = useState<ChangeFilter>('all');
+  const [snapshotName, setSnapshotName] = useState('');
+
+  const counts = changes.reduce<Record<RankingChangeKind, number>>(
+    (totals, change) => ({ ...totals, [change.kind]: totals[change.kind] + 1 }),
+    { riser: 0, faller: 0, unchanged: 0, added: 0, removed: 0 },
+  );
+  const visibleChanges = filter === 'all' ? changes.filter(c => c.kind !== 'unchanged') : changes.filter(c => c.kind === filter);
+  const fromLabel = options.find(o => o.id === fromId)?.label ?? '';
+  const toLabel = options.find(o => o.id === toId)?.label ?? '';
+
+  const handleSaveSnapshot = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSaveSnapshot(snapshotName.trim() || `Snapshot ${new Date().toLocaleString()}`);
+    setSnapshotName('');
+  };
+
+  const renderOptions = () => options.map(option => (
+    <option key={option.id} value={option.id}>{option.label}</option>
+  ));
+
+  return (
+    <details className="mt-6 bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+      <summary className="cursor-pointer text-sm font-medium text-gray-300">
+        Compare Rankings
+        <span className="ml-2 text-xs text-gray-500">
+          ({counts.riser} risers, {counts.faller} fallers, {counts.added} added, {counts.removed} removed)
+        </span>
+      </summary>
+      <div className="mt-4 grid grid-cols-[1fr_auto_1fr] gap-2 items-end">
+        <label className="text-xs text-gray-400">
+          From
+          <select className={selectClassName} value={fromId} onChange={(e) => onFromChange(e.target.value)}>
+            {renderOptions()}
+          </select>
+        </label>
+        <button
+          onClick={() => {
+            onFromChange(toId);
+            onToChange(fromId);
+          }}
+          className="px-2 py-1 rounded-md text-sm bg-gray-700 text-gray-300 hover:bg-gray-600"
+          aria-label="Swap the compared rankings"
+          title="Swap"
+        >
+          ⇄
+        </button>
+        <label className="text-xs text-gray-400">
+          To
+          <select className={selectClassName} value={toId} onChange={(e) => onToChange(e.target.value)}>
+            {renderOptions()}
+          </select>
+        </label>
+      </div>
+      <div className="mt-3 flex flex-wrap justify-between items-center gap-3">
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <input
+            type="checkbox"
+            checked={showOnBoard}
+            disabled={fromId === 'current'}
+            onChange={(e) => onShowOnBoardChange(e.target.checked)}
+            className="rounded border-gray-600 bg-gray-900 text-cyan-500 focus:ring-cyan-500"
+          />
+          {fromId === 'current'
+            ? 'Choose rankings other than the board to show arrows on it'
+            : `Show the changes from ${fromLabel} to the board as arrows on it`}
+        </label>
+        <form onSubmit={handleSaveSnapshot} className="flex gap-2">
+          <input
+            type="text"
+            className="bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+            placeholder="Snapshot name"
+            aria-label="Snapshot name"
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+          />
+          <button type="submit" className="px-3 py-1 rounded-md text-xs font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600">
+            Save Current Rankings
+          </button>
+        </form>
+      </div>
+      {snapshots.length > 0 && (
+        <ul className="mt-2 flex flex-wrap gap-2 text-xs">
+          {snapshots.map(snapshot => (
+            <li key={snapshot.id} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-900 border border-gray-700 text-gray-300">
+              <span title={new Date(snapshot.createdAt).toLocaleString()}>{snapshot.name}</span>
+              <button
+                onClick={() => onDeleteSnapshot(snapshot.id)}
+                className="text-red-400 hover:text-red-300"
+                aria-label={`Delete snapshot ${snapshot.name}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-3 flex flex-wrap gap-1" role="group" aria-label="Filter changes">
+        {(Object.keys(FILTER_LABELS) as ChangeFilter[]).map(key => (
+          <button
+            key={key}
+            onClick={() => setFilter(key)}
+            className={`px-2 py-0.5 rounded-full text-xs font-semibold border ${
+              filter === key ? 'bg-gray-600 border-gray-400 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:bg-gray-700'
+            }`}
+            aria-pressed={filter === key}
+          >
+            {FILTER_LABELS[key]} {key === 'all' ? changes.length - counts.unchanged : counts[key]}
+          </button>
+        ))}
+      </div>
+      {fromId === toId ? (
+        <p className="mt-3 text-sm text-gray-500">Choose two different rankings to compare.</p>
+      ) : visibleChanges.length === 0 ? (
+        <p className="mt-3 text-sm text-gray-500">No changes.</p>
+      ) : (
+        <div className="mt-3 max-h-96 overflow-y-auto border border-gray-700 rounded-md">
+          <table className="w-full text-xs text-gray-300">
+            <thead className="sticky top-0 bg-gray-800 text-gray-400">
+              <tr>
+                <th scope="col" className="px-2 py-1 text-right truncate max-w-[8rem]" title={fromLabel}>{fromLabel}</th>
+                <th scope="col" className="px-2 py-1 text-left">Player</th>
+                <th scope="col" className="px-2 py-1 text-right truncate max-w-[8rem]" title={toLabel}>{toLabel}</th>
+                <th scope="col" className="px-2 py-1 text-right">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleChanges.map(change => (
+                <tr key={change.playerId}>
+                  <td className="px-2 py-0.5 text-right font-mono">{change.fromRank ?? '–'}</td>
+                  <td className="px-2 py-0.5">
+                    {change.name} <span className={`font-mono ${getPositionColorClasses(change.position).text}`}>{change.position}</span>
+                  </td>
+                  <td className="px-2 py-0.5 text-right font-mono">{change.toRank ?? '–'}</td>
+                  <td className={`px-2 py-0.5 text-right font-mono font-semibold ${RANK_CHANGE_COLORS[change.kind]}`}>{formatRankChange(change)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </details>
+  );
+};
+
+export default RankingComparison;
@@ -0,0 +1,172 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import type { ImportColumn } from '../types';
+import {
+  IMPORT_COLUMNS,
+  IMPORT_COLUMN_LABELS,
+  buildImportPreview,
+  detectColumn,
+  detectColumnMapping,
+  formatImportedRows,
+  parseDelimitedTable,
+} from '../utils/importer';
+
+interface RankingsImporterProps {
+  onImport: (rankingsText: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 10;
+
+const RankingsImporter: React.FC<RankingsImporterProps> = ({ onImport, onClose }) => {
+  const [sourceText, setSourceText] = useState('');
+  const [mapping, setMapping] = useState<ImportColumn[]>([]);
+
+  const table = useMemo(() => parseDelimitedTable(sourceText), [sourceText]);
+
+  // Re-detect the columns whenever a different header row is loaded.
+  const headerKey = table ? table.headers.join('\u0000') : '';
+  useEffect(() => {
+    setMapping(table ? detectColumnMapping(table.headers) : []);
+  }, [headerKey]);
+
+  const preview = useMemo(() => {
+    if (!table || mapping.length !== table.headers.length) {
+      return null;
+    }
+    return buildImportPreview(table, mapping);
+  }, [table, mapping]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setSourceText(await file.text());
+    }
+  };
+
+  const handleMappingChange = (index: number, column: ImportColumn) => {
+    setMapping(prevMapping => prevMapping.map((existing, i) => {
+      if (i === index) return column;
+      // Each field can only come from one column.
+      return existing === column && column !== 'ignore' ? 'ignore' : existing;
+    }));
+  };
+
+  const canImport = !!preview && preview.rows.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="importer-title">
+      <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl w-full max-w-4xl max-h-full overflow-y-auto p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 id="importer-title" className="text-xl font-bold text-cyan-300">Import Rankings</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl leading-none" aria-label="Close importer">&times;</button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-3">
+          Choose a CSV or TSV export, or paste it below. The first row must be a header row.
+        </p>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+          onChange={handleFileChange}
+          className="block w-full text-sm text-gray-300 mb-3 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+        />
+        <textarea
+          rows={6}
+          className="w-full bg-gray-900 border border-gray-600 rounded-md p-3 text-gray-200 text-xs font-mono focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+          placeholder={'Rank,Player,Team,Pos,Bye,ADP\n1,Ja\'Marr Chase,CIN,WR,10,1.2'}
+          value={sourceText}
+          onChange={(e) => setSourceText(e.target.value)}
+          aria-label="Spreadsheet data to import"
+        />
+
+        {sourceText.trim() && !table && (
+          <p className="text-sm text-red-400 mt-3">Could not find a comma, tab or semicolon separated header row.</p>
+        )}
+
+        {table && (
+          <>
+            <h3 className="text-sm font-medium text-gray-300 mt-6 mb-2">Column Mapping</h3>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {table.headers.map((header, index) => (
+                <label key={index} className="text-xs text-gray-400">
+                  <span className={detectColumn(header) ? '' : 'text-amber-400'} title={detectColumn(header) ? undefined : 'Unrecognized header'}>
+                    {header || `Column ${index + 1}`}
+                  </span>
+                  <select
+                    className="w-full mt-1 bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                    value={mapping[index] ?? 'ignore'}
+                    onChange={(e) => handleMappingChange(index, e.target.value as ImportColumn)}
+                  >
+                    {IMPORT_COLUMNS.map((column) => (
+                      <option key={column} value={column}>
+                        {IMPORT_COLUMN_LABELS[column]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </>
+        )}
+
+        {preview && (
+          <>
+            <h3 className="text-sm font-medium text-gray-300 mt-6 mb-2">
+              Preview <span className="text-xs text-gray-500">({preview.rows.length} players)</span>
+            </h3>
+            {preview.rowErrors.length > 0 && (
+              <ul className="mb-3 text-xs text-red-400 space-y-1 max-h-24 overflow-y-auto">
+                {preview.rowErrors.map(({ line, message }) => (
+                  <li key={`${line}-${message}`}>Line {line}: {message}</li>
+                ))}
+              </ul>
+            )}
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs text-left text-gray-300">
+                <thead className="text-gray-400 border-b border-gray-700">
+                  <tr>
+                    {(['rank', 'name', 'position', 'team', 'bye', 'adp', 'tier', 'projection'] as const).map((column) => (
+                      <th key={column} className="py-1 pr-3 font-semibold">{IMPORT_COLUMN_LABELS[column]}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                    <tr key={index} className="border-b border-gray-700/50">
+                      <td className="py-1 pr-3 font-mono">{row.rank}</td>
+                      <td className="py-1 pr-3">{row.name}</td>
+                      <td className="py-1 pr-3 font-mono">{row.position}</td>
+                      <td className="py-1 pr-3">{row.team ?? ''}</td>
+                      <td className="py-1 pr-3 font-mono">{row.bye ?? ''}</td>
+                      <td className="py-1 pr-3 font-mono">{row.adp ?? ''}</td>
+                      <td className="py-1 pr-3 font-mono">{row.tier ?? ''}</td>
+                      <td className="py-1 pr-3 font-mono">{row.projection ?? ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-md text-sm font-semibold bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => preview && onImport(formatImportedRows(preview.rows))}
+            disabled={!canImport}
+            className="px-4 py-2 rounded-md text-sm font-semibold bg-cyan-500 text-white hover:bg-cyan-400 disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          >
+            Replace Rankings
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RankingsImporter;
@@ -0,0 +1,48 @@
+import React from 'react';
+import type { Team } from '../types';
+
+interface TeamNamesEditorProps {
+  // The teams in the league, in draft slot order.
+  teams: Team[];
+  onTeamChange: (team: Team) => void;
+}
+
+const inputClassName = "w-full bg-gray-900 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+const TeamNamesEditor: React.FC<TeamNamesEditorProps> = ({ teams, onTeamChange }) => {
+  const namedCount = teams.filter(team => team.name.trim()).length;
+
+  return (
+    <details className="mt-6 border-t border-gray-700 pt-4">
+      <summary className="cursor-pointer text-sm font-medium text-gray-300">
+        Team Names
+        <span className="ml-2 text-xs text-gray-500">({namedCount} of {teams.length} named)</span>
+      </summary>
+      <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {teams.map((team, teamIndex) => (
+          <fieldset key={team.id} className="grid grid-cols-2 gap-2">
+            <legend className="text-xs font-medium text-gray-400 mb-1">Slot {teamIndex + 1}</legend>
+            <input
+              type="text"
+              className={inputClassName}
+              placeholder={`Team ${teamIndex + 1}`}
+              aria-label={`Team name for slot ${teamIndex + 1}`}
+              value={team.name}
+              onChange={(e) => onTeamChange({ ...team, name: e.target.value })}
+            />
+            <input
+              type="text"
+              className={inputClassName}
+              placeholder="Owner"
+              aria-label={`Owner for slot ${teamIndex + 1}`}
+              value={team.owner}
+              onChange={(e) => onTeamChange({ ...team, owner: e.target.value })}
+            />
+          </fieldset>
+        ))}
+      </div>
+    </details>
+  );
+};
+
+export default TeamNamesEditor;
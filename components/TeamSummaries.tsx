@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import type { DraftOrder, Player, Team } from '../types';
+import { getTeamPlayers } from '../utils/draftOrder';
+import { getPositionColorClasses } from '../utils/positions';
+import { summarizeRoster } from '../utils/roster';
+import { getTeamName } from '../utils/teams';
+
+interface TeamSummariesProps {
+  // Players in overall pick order, as laid out on the board.
+  draftOrder: Player[];
+  order: DraftOrder;
+  teams: Team[];
+  pickedPlayers: Set<number>;
+  mySeat: number | null;
+}
+
+type SummaryView = 'actual' | 'projection';
+
+const VIEW_LABELS: Record<SummaryView, string> = {
+  actual: 'Picks So Far',
+  projection: 'Full Projection',
+};
+
+const TeamSummaries: React.FC<TeamSummariesProps> = ({ draftOrder, order, teams, pickedPlayers, mySeat }) => {
+  const [view, setView] = useState<SummaryView>('actual');
+
+  return (
+    <section className="mt-6 bg-gray-800/50 border border-gray-700 rounded-lg p-4" aria-label="Team summaries">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <h2 className="text-lg font-bold text-cyan-300">Team Summaries</h2>
+        <div className="flex gap-2" role="group" aria-label="Summary view">
+          {(Object.keys(VIEW_LABELS) as SummaryView[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setView(key)}
+              className={`px-3 py-1 rounded-md text-xs font-semibold transition-colors duration-200 ${
+                view === key ? 'bg-cyan-500 text-white shadow-md' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+              aria-pressed={view === key}
+            >
+              {VIEW_LABELS[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 2xl:grid-cols-4 gap-3">
+        {teams.map((team, teamIndex) => {
+          const players = getTeamPlayers(draftOrder, order, teamIndex, view === 'actual' ? pickedPlayers : null);
+          const { groups, byeConflicts, projectedPoints, hasProjections } = summarizeRoster(players);
+          return (
+            <article
+              key={team.id}
+              className={`p-3 rounded-md border ${teamIndex === mySeat ? 'border-cyan-600 bg-cyan-500/10' : 'border-gray-700 bg-gray-900/40'}`}
+            >
+              <header className="flex justify-between items-baseline gap-2">
+                <h3 className="font-bold text-sm text-white truncate">{getTeamName(teams, teamIndex)}</h3>
+                <span className="text-xs text-gray-400 font-mono flex-shrink-0">
+                  {players.length} players{hasProjections && ` · ${Math.round(projectedPoints)} pts`}
+                </span>
+              </header>
+              {groups.length === 0 ? (
+                <p className="mt-2 text-xs text-gray-500">No players yet.</p>
+              ) : (
+                <dl className="mt-2 space-y-1 text-xs">
+                  {groups.map(({ position, players: group }) => (
+                    <div key={position} className="flex gap-2">
+                      <dt className={`w-12 flex-shrink-0 font-mono font-bold ${getPositionColorClasses(position).text}`}>
+                        {position} {group.length}
+                      </dt>
+                      <dd className="text-gray-300 truncate" title={group.map(p => p.name).join(', ')}>
+                        {group.map(p => p.name).join(', ')}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+              {byeConflicts.length > 0 && (
+                <ul className="mt-2 text-xs text-amber-400 space-y-0.5">
+                  {byeConflicts.map(({ week, position, players: conflicted }) => (
+                    <li key={`${week}-${position}`} title={conflicted.map(p => p.name).join(', ')}>
+                      ⚠ Week {week}: {conflicted.length} {position}s on bye
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </article>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default TeamSummaries;
@@ -0,0 +1,30 @@
+import React from 'react';
+import type { Player } from '../types';
+import { formatPosition, getPositionColorClasses } from '../utils/positions';
+
+interface UndraftedPlayersProps {
+  // Players projected to go after the last pick of the draft, best first.
+  players: Player[];
+}
+
+const UndraftedPlayers: React.FC<UndraftedPlayersProps> = ({ players }) => {
+  return (
+    <details className="mt-6 bg-gray-800/50 border border-gray-700 rounded-lg p-4">
+      <summary className="cursor-pointer text-sm font-medium text-gray-300">
+        Undrafted
+        <span className="ml-2 text-xs text-gray-500">({players.length} players left after the last pick)</span>
+      </summary>
+      <ol className="mt-3 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-x-4 gap-y-1 text-sm">
+        {players.map(player => (
+          <li key={player.lineIndex} className="flex items-baseline gap-2 truncate">
+            <span className="text-xs text-gray-500 font-mono w-8 text-right flex-shrink-0">{player.rank}</span>
+            <span className="text-gray-300 truncate" title={player.name}>{player.name}</span>
+            <span className={`text-xs font-mono ${getPositionColorClasses(player.position).text}`}>{formatPosition(player)}</span>
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+};
+
+export default UndraftedPlayers;
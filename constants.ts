@@ -1,3 +1,20 @@
+import type { BoardRanking, BotStrategy, ConsensusMethod, DataSource, DraftFormat, DraftMode } from './types';
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 32;
+export const MAX_ROUNDS = 40;
+
+export const DATA_SOURCES: DataSource[] = ['Sleeper PPR', 'Yahoo Half', 'ESPN Half', 'Consensus', 'Custom'];
+
+export const CONSENSUS_METHODS: ConsensusMethod[] = ['Average', 'Weighted'];
+
+export const DRAFT_FORMATS: DraftFormat[] = ['Snake', '3RR', 'Linear', 'Custom'];
+
+export const DRAFT_MODES: DraftMode[] = ['Projection', 'Live', 'Mock'];
+
+export const BOT_STRATEGIES: BotStrategy[] = ['Best Available', 'Positional Need', 'ADP + Noise'];
+
+export const BOARD_RANKINGS: BoardRanking[] = ['Source', 'VBD'];
 
 export const SLEEPER_PLAYER_LIST = `1	Ja'Marr Chase	WR1
 2	Saquon Barkley	RB1
@@ -626,3 +643,10 @@ export const ESPN_PLAYER_LIST = `1	Ja'Marr Chase WR
 239	Jalen Coker	WR
 249	Tahj Brooks	RB
 250	Brashard Smith	RB`;
+
+// The built-in lists merged by the Consensus source, in the order their spellings are preferred.
+export const CONSENSUS_SOURCES: { source: DataSource; text: string }[] = [
+  { source: 'Sleeper PPR', text: SLEEPER_PLAYER_LIST },
+  { source: 'Yahoo Half', text: YAHOO_PLAYER_LIST },
+  { source: 'ESPN Half', text: ESPN_PLAYER_LIST },
+];
@@ -0,0 +1,70 @@
+import { useState, useRef } from 'react';
+import type { DraftAction } from '../types';
+
+type HistoryDirection = 'undo' | 'redo';
+
+// Tracks draft actions so they can be undone and redone. The caller applies each
+// action's effect, since only it owns the draft state.
+export const useDraftHistory = (applyAction: (action: DraftAction, direction: HistoryDirection) => void) => {
+  const [past, setPast] = useState<DraftAction[]>([]);
+  const [future, setFuture] = useState<DraftAction[]>([]);
+  const nextId = useRef(1);
+
+  const record = (action: Omit<DraftAction, 'id' | 'timestamp'>) => {
+    const entry: DraftAction = { ...action, id: nextId.current++, timestamp: Date.now() };
+    setPast(prevPast => [...prevPast, entry]);
+    setFuture([]);
+  };
+
+  // Moves the draft to the point just after the first `position` actions of the combined timeline.
+  const goTo = (position: number) => {
+    const timeline = [...past, ...future];
+    const target = Math.max(0, Math.min(position, timeline.length));
+    if (target < past.length) {
+      past.slice(target).reverse().forEach(action => applyAction(action, 'undo'));
+    } else {
+      future.slice(0, target - past.length).forEach(action => applyAction(action, 'redo'));
+    }
+    setPast(timeline.slice(0, target));
+    setFuture(timeline.slice(target));
+  };
+
+  // Bot picks are undone together with the user's action that triggered them.
+  const undo = () => {
+    let position = past.length - 1;
+    while (position > 0 && past[position].kind === 'bot-pick') {
+      position--;
+    }
+    if (position >= 0) {
+      goTo(position);
+    }
+  };
+
+  const redo = () => {
+    let position = past.length + 1;
+    while (position < past.length + future.length && future[position - past.length].kind === 'bot-pick') {
+      position++;
+    }
+    if (future.length > 0) {
+      goTo(position);
+    }
+  };
+
+  // Updates every recorded action in place, e.g. when the IDs its snapshots use change.
+  const rewrite = (update: (action: DraftAction) => DraftAction) => {
+    setPast(prevPast => prevPast.map(update));
+    setFuture(prevFuture => prevFuture.map(update));
+  };
+
+  return {
+    past,
+    future,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    record,
+    undo,
+    redo,
+    goTo,
+    rewrite,
+  };
+};
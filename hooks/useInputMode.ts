@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+
+export type InputMode = 'mouse' | 'touch' | 'keyboard';
+
+const NAVIGATION_KEYS = ['Tab', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Enter', ' '];
+
+// Follows how the user last interacted with the page, starting from the device's primary pointer.
+export const useInputMode = (): InputMode => {
+  const [mode, setMode] = useState<InputMode>(() => {
+    return window.matchMedia('(pointer: coarse)').matches ? 'touch' : 'mouse';
+  });
+
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => {
+      setMode(e.pointerType === 'touch' || e.pointerType === 'pen' ? 'touch' : 'mouse');
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (NAVIGATION_KEYS.includes(e.key)) {
+        setMode('keyboard');
+      }
+    };
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  return mode;
+};
@@ -0,0 +1,57 @@
+import { useRef, useEffect } from 'react';
+import type React from 'react';
+
+const LONG_PRESS_MS = 500;
+// A finger that drifts further than this is scrolling, not pressing.
+const MOVE_TOLERANCE_PX = 10;
+
+// Detects a touch long-press on an element. The caller's click handler should bail out
+// when consumeLongPress() is true, so a long-press never also counts as a tap.
+export const useLongPress = (onLongPress: () => void) => {
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const start = useRef<{ x: number; y: number } | null>(null);
+  const fired = useRef(false);
+  const lastPointerType = useRef<string>('mouse');
+
+  const cancel = () => {
+    if (timer.current) {
+      clearTimeout(timer.current);
+      timer.current = null;
+    }
+    start.current = null;
+  };
+
+  useEffect(() => cancel, []);
+
+  const handlers = {
+    onPointerDown: (e: React.PointerEvent) => {
+      fired.current = false;
+      lastPointerType.current = e.pointerType;
+      if (e.pointerType !== 'touch') return;
+      start.current = { x: e.clientX, y: e.clientY };
+      timer.current = setTimeout(() => {
+        fired.current = true;
+        timer.current = null;
+        onLongPress();
+      }, LONG_PRESS_MS);
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      if (start.current && Math.hypot(e.clientX - start.current.x, e.clientY - start.current.y) > MOVE_TOLERANCE_PX) {
+        cancel();
+      }
+    },
+    onPointerUp: cancel,
+    onPointerCancel: cancel,
+  };
+
+  const consumeLongPress = (): boolean => {
+    const wasLongPress = fired.current;
+    fired.current = false;
+    return wasLongPress;
+  };
+
+  // Phones raise a context menu on long-press, which must not act as a right-click.
+  const isTouch = (): boolean => lastPointerType.current === 'touch';
+
+  return { handlers, consumeLongPress, isTouch };
+};
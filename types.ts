@@ -1,10 +1,176 @@
 export interface Player {
+  // Stable across spellings and ranking edits; see utils/playerIdentity.
+  id: string;
   rank: number;
   name: string;
+  // The position without any positional rank, e.g. "WR" for a "WR1" token.
   position: string;
   isHighlighted: boolean;
+  // 0-based index of the line in the rankings text this player was parsed from.
+  lineIndex: number;
+  // Rank among players at the same position, when the source provides one.
+  positionalRank?: number;
+  // NFL team abbreviation, e.g. "CIN".
+  team?: string;
+  byeWeek?: number;
+  tier?: number;
+  adp?: number;
+  projectedPoints?: number;
 }
 
+// Each team's picks in round order, keyed by team id.
 export type DraftBoardData = Record<string, (Player | null)[]>;
 
-export type DataSource = 'Sleeper PPR' | 'Yahoo Half' | 'ESPN Half' | 'Custom';
\ No newline at end of file
+// A team in the league. Its draft slot is its position in the draft's team list.
+export interface Team {
+  // Stable across renames, so anything tied to a team survives a name change.
+  id: string;
+  name: string;
+  owner: string;
+}
+
+export type DataSource = 'Sleeper PPR' | 'Yahoo Half' | 'ESPN Half' | 'Consensus' | 'Custom';
+
+export type ConsensusMethod = 'Average' | 'Weighted';
+
+// How the built-in lists are merged into the Consensus ranking.
+export interface ConsensusSettings {
+  method: ConsensusMethod;
+  // Weight of each built-in source for the Weighted method, keyed by source name.
+  weights: Record<string, number>;
+}
+
+export type DraftFormat = 'Snake' | '3RR' | 'Linear' | 'Custom';
+
+export interface DraftOrder {
+  numTeams: number;
+  numRounds: number;
+  format: DraftFormat;
+  // For the Custom format: 0-based team indexes in pick order for each listed round.
+  customRounds: number[][];
+  // Overall picks that were traded, mapped to the 0-based index of the team that now owns them.
+  tradedPicks: Map<number, number>;
+}
+
+// A player a team keeps from last season, occupying that team's slot in a 0-based round.
+export interface Keeper {
+  teamIndex: number;
+  round: number;
+  playerId: string;
+}
+
+export type DraftMode = 'Projection' | 'Live' | 'Mock';
+
+export type BotStrategy = 'Best Available' | 'Positional Need' | 'ADP + Noise';
+
+// Whether the board follows the pasted ranking or value over replacement (VBD).
+export type BoardRanking = 'Source' | 'VBD';
+
+export type RosterSlot = 'QB' | 'RB' | 'WR' | 'TE' | 'FLEX' | 'SUPERFLEX' | 'K' | 'DST' | 'BENCH';
+
+export interface LeagueSettings {
+  // Number of roster spots of each kind. Every slot except BENCH is a starter.
+  rosterSlots: Record<RosterSlot, number>;
+  // Maximum number of players a team may roster at a position, e.g. { QB: 3 }.
+  positionLimits: Record<string, number>;
+}
+
+export type ImportColumn = 'rank' | 'name' | 'team' | 'position' | 'bye' | 'adp' | 'tier' | 'projection' | 'ignore';
+
+export type ParseIssueSeverity = 'error' | 'warning';
+
+export type ParseIssueKind = 'malformed' | 'duplicate-rank' | 'duplicate-name' | 'rank-gap' | 'unknown-position';
+
+export interface ParseIssue {
+  // 1-based line number in the rankings text.
+  line: number;
+  severity: ParseIssueSeverity;
+  kind: ParseIssueKind;
+  message: string;
+}
+
+export interface ParseResult {
+  players: Player[];
+  issues: ParseIssue[];
+}
+
+// Every collection of picks a draft action can change.
+export interface DraftSnapshot {
+  pickedPlayers: Set<string>;
+  livePicks: Map<number, string>;
+  mockPicks: Map<number, string>;
+}
+
+export type DraftActionKind = 'pick' | 'unpick' | 'mark-until' | 'highlight' | 'reset' | 'bot-pick';
+
+export interface DraftAction {
+  id: number;
+  kind: DraftActionKind;
+  label: string;
+  timestamp: number;
+  overallPick?: number;
+  // Pick changes restore these snapshots on undo and redo.
+  before?: DraftSnapshot;
+  after?: DraftSnapshot;
+  // Highlight changes toggle the `*` on this player's rankings line in both directions,
+  // wherever the line is by then.
+  highlightPlayerId?: string;
+}
+
+// A player still on the board, with the overall pick they are projected to go at.
+export interface AvailablePlayer {
+  player: Player;
+  overallPick: number;
+}
+
+// A copy of the rankings text saved for comparing against later versions.
+export interface RankingSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  text: string;
+}
+
+// Everything needed to restore one draft, in a JSON-friendly shape.
+export interface SavedDraft {
+  id: string;
+  name: string;
+  createdAt: number;
+  rawText: string;
+  // The last custom rankings text, restored when switching back to the Custom source.
+  customRankings: string;
+  dataSource: DataSource;
+  consensus: ConsensusSettings;
+  numTeams: number;
+  numRounds: number;
+  // At least numTeams long; teams beyond numTeams are kept for when the league grows again.
+  teams: Team[];
+  draftFormat: DraftFormat;
+  // One line per round of 1-based team numbers, used by the Custom draft format.
+  customDraftOrder: string;
+  tradedPicks: [number, number][];
+  keepers: Keeper[];
+  mySeat: number | null;
+  draftMode: DraftMode;
+  botStrategy: BotStrategy;
+  boardRanking: BoardRanking;
+  leagueSettings: LeagueSettings;
+  // Picks are stored by player ID so they survive edits to the rankings: the players
+  // greyed out in projection mode, and live and mock picks as [overall pick, player ID].
+  pickedPlayers: string[];
+  livePicks: [number, string][];
+  mockPicks: [number, string][];
+  // How each picked or kept player was spelled when last listed, by player ID, so picks
+  // whose player is no longer in the rankings can still be shown by name.
+  pickedPlayerNames: Record<string, string>;
+  // Free-text notes and the personal draft queue, both keyed by player ID.
+  playerNotes: Record<string, string>;
+  queue: string[];
+  // User-added alternate spellings: alias name → player name, both as typed.
+  playerAliases: Record<string, string>;
+  // Draft the top available queued player automatically when the user's live or mock pick comes up.
+  autoPickQueue: boolean;
+  rankingSnapshots: RankingSnapshot[];
+}
+
+export type DraftSummary = Pick<SavedDraft, 'id' | 'name' | 'createdAt'>;
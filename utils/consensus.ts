@@ -0,0 +1,138 @@
+import type { ConsensusSettings, Player } from '../types';
+import { getRosterPosition } from './roster';
+
+// A rankings list that takes part in the consensus.
+export interface RankingSource {
+  name: string;
+  players: Player[];
+}
+
+export interface ConsensusPlayer {
+  // Spelled as in the first source that lists the player.
+  name: string;
+  position: string;
+  // The IDs of every spelling the sources use for the player.
+  ids: string[];
+  // Rank in each source, in source order; null where a source doesn't list the player.
+  ranks: (number | null)[];
+  averageRank: number;
+  weightedRank: number;
+  minRank: number;
+  maxRank: number;
+  stdDev: number;
+  isDisputed: boolean;
+}
+
+// A player is disputed when the sources' ranks spread by more than DISPUTE_MIN_STDEV and
+// by more than DISPUTE_RELATIVE_STDEV of their average rank. The relative part keeps
+// late-round players, where a ten-spot difference means little, from all being flagged.
+const DISPUTE_MIN_STDEV = 4;
+const DISPUTE_RELATIVE_STDEV = 0.12;
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Two spellings of one player that no alias covers: a shortened first name ("Cam" /
+// "Cameron") or a one-letter typo. The positions have to agree so namesakes at different
+// positions stay apart.
+const isSpellingVariant = (a: Player, b: Player): boolean => {
+  if (getRosterPosition(a.position) !== getRosterPosition(b.position)) {
+    return false;
+  }
+  const partsA = a.id.split(' ');
+  const partsB = b.id.split(' ');
+  const sameLastName = partsA.length > 1 && partsB.length > 1 && partsA.slice(1).join(' ') === partsB.slice(1).join(' ');
+  if (sameLastName && (partsA[0].startsWith(partsB[0]) || partsB[0].startsWith(partsA[0]))) {
+    return true;
+  }
+  return Math.min(a.id.length, b.id.length) >= 8 && editDistance(a.id, b.id) <= 1;
+};
+
+interface ConsensusEntry {
+  player: Player;
+  ids: Set<string>;
+  ranks: (number | null)[];
+}
+
+// Matches each player across the sources, then ranks them by the average or weighted rank
+// of the sources that list them. Ties go to the player more sources agree on.
+export const buildConsensus = (sources: RankingSource[], settings: ConsensusSettings): ConsensusPlayer[] => {
+  const entries: ConsensusEntry[] = [];
+  const entriesById = new Map<string, ConsensusEntry>();
+
+  sources.forEach((source, sourceIndex) => {
+    source.players.forEach(player => {
+      const entry = entriesById.get(player.id)
+        ?? entries.find(e => e.ranks[sourceIndex] === null && isSpellingVariant(e.player, player));
+      if (!entry) {
+        const ranks: (number | null)[] = sources.map(() => null);
+        ranks[sourceIndex] = player.rank;
+        const created = { player, ids: new Set([player.id]), ranks };
+        entries.push(created);
+        entriesById.set(player.id, created);
+      } else if (entry.ranks[sourceIndex] === null) {
+        entry.ranks[sourceIndex] = player.rank;
+        entry.ids.add(player.id);
+        entriesById.set(player.id, entry);
+      }
+      // Otherwise the source lists the player twice; its first rank is kept.
+    });
+  });
+
+  const consensus = entries.map(({ player, ids, ranks }): ConsensusPlayer => {
+    const listed = ranks.filter((rank): rank is number => rank !== null);
+    const averageRank = listed.reduce((sum, rank) => sum + rank, 0) / listed.length;
+    let weightedSum = 0;
+    let totalWeight = 0;
+    ranks.forEach((rank, sourceIndex) => {
+      const weight = settings.weights[sources[sourceIndex].name] ?? 1;
+      if (rank !== null && weight > 0) {
+        weightedSum += rank * weight;
+        totalWeight += weight;
+      }
+    });
+    const stdDev = Math.sqrt(listed.reduce((sum, rank) => sum + (rank - averageRank) ** 2, 0) / listed.length);
+    return {
+      name: player.name,
+      position: player.position,
+      ids: Array.from(ids),
+      ranks,
+      averageRank,
+      weightedRank: totalWeight > 0 ? weightedSum / totalWeight : averageRank,
+      minRank: Math.min(...listed),
+      maxRank: Math.max(...listed),
+      stdDev,
+      isDisputed: listed.length > 1 && stdDev > Math.max(DISPUTE_MIN_STDEV, averageRank * DISPUTE_RELATIVE_STDEV),
+    };
+  });
+
+  const sourceCount = (p: ConsensusPlayer) => p.ranks.filter(rank => rank !== null).length;
+  const rankOf = (p: ConsensusPlayer) => settings.method === 'Weighted' ? p.weightedRank : p.averageRank;
+  return consensus.sort((a, b) => rankOf(a) - rankOf(b) || sourceCount(b) - sourceCount(a) || a.minRank - b.minRank);
+};
+
+// The merged ranking as rankings text, with positional ranks recounted in consensus order.
+export const formatConsensusText = (players: ConsensusPlayer[]): string => {
+  const positionCounts = new Map<string, number>();
+  return players.map((p, index) => {
+    const positionalRank = (positionCounts.get(p.position) ?? 0) + 1;
+    positionCounts.set(p.position, positionalRank);
+    return `${index + 1}\t${p.name}\t${p.position}${positionalRank}`;
+  }).join('\n');
+};
+
+// Consensus players by the ID of every spelling of their name, for looking up players from any list.
+export const indexConsensusById = (players: ConsensusPlayer[]): Map<string, ConsensusPlayer> => {
+  const index = new Map<string, ConsensusPlayer>();
+  players.forEach(p => p.ids.forEach(id => index.set(id, p)));
+  return index;
+};
@@ -0,0 +1,73 @@
+import type { Player } from '../types';
+import { getRosterPosition } from './roster';
+
+// A run is RUN_THRESHOLD or more picks at one position within the last RUN_WINDOW picks.
+const RUN_WINDOW = 6;
+const RUN_THRESHOLD = 4;
+
+export interface PositionRun {
+  position: string;
+  count: number;
+  window: number;
+}
+
+export interface ScarcityAlert {
+  position: string;
+  // Players at the position among the top of the remaining pool.
+  supply: number;
+  // How many of them are likely gone before the user picks again.
+  expectedTaken: number;
+  picksUntilMyTurn: number;
+}
+
+const countByPosition = (players: Player[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  players.forEach(p => {
+    const position = getRosterPosition(p.position);
+    if (position) {
+      counts.set(position, (counts.get(position) ?? 0) + 1);
+    }
+  });
+  return counts;
+};
+
+// Positions that dominate the most recent picks. `madePicks` must be in pick order.
+export const detectPositionRuns = (madePicks: Player[]): PositionRun[] => {
+  const recent = madePicks.slice(-RUN_WINDOW);
+  if (recent.length < RUN_THRESHOLD) {
+    return [];
+  }
+  return Array.from(countByPosition(recent).entries())
+    .filter(([, count]) => count >= RUN_THRESHOLD)
+    .map(([position, count]) => ({ position, count, window: recent.length }));
+};
+
+// Positions likely to be picked over before the user's next turn. Demand is whichever is
+// higher: the position's share of the players projected to go first, or its share of the
+// recent picks, so an ongoing run raises the alarm earlier than the rankings alone would.
+export const getScarcityAlerts = (
+  available: Player[],
+  madePicks: Player[],
+  picksUntilMyTurn: number,
+  horizon: number,
+): ScarcityAlert[] => {
+  if (picksUntilMyTurn <= 0) {
+    return [];
+  }
+  const supplyCounts = countByPosition(available.slice(0, horizon));
+  const projectedCounts = countByPosition(available.slice(0, picksUntilMyTurn));
+  const recent = madePicks.slice(-RUN_WINDOW);
+  const recentCounts = countByPosition(recent);
+
+  const alerts: ScarcityAlert[] = [];
+  supplyCounts.forEach((supply, position) => {
+    const projectedShare = (projectedCounts.get(position) ?? 0) / picksUntilMyTurn;
+    const recentShare = recent.length > 0 ? (recentCounts.get(position) ?? 0) / recent.length : 0;
+    const expectedTaken = Math.min(supply, Math.round(Math.max(projectedShare, recentShare) * picksUntilMyTurn));
+    // About to dry up: at most one good option is expected to be left.
+    if (expectedTaken > 0 && supply - expectedTaken <= 1) {
+      alerts.push({ position, supply, expectedTaken, picksUntilMyTurn });
+    }
+  });
+  return alerts.sort((a, b) => (a.supply - a.expectedTaken) - (b.supply - b.expectedTaken));
+};
@@ -0,0 +1,81 @@
+import type { Player, SavedDraft } from '../types';
+import { createDraft, sanitizeDraft } from './draftLibrary';
+import { parsePlayerText } from './parser';
+import { createPlayerIdResolver } from './playerIdentity';
+
+export const DRAFT_EXPORT_FORMAT = 'snake-draft-simulator/draft';
+
+// Bump only when the exported shape changes in a way older versions of the app can't read.
+// Fields added later are optional: missing ones fall back to the defaults of a new draft.
+export const DRAFT_EXPORT_VERSION = 1;
+
+export interface DraftExport {
+  format: typeof DRAFT_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  draft: Omit<SavedDraft, 'id'>;
+  // The parsed players and highlighted ranks, for readers that don't parse rankings text.
+  players: Player[];
+  highlightedRanks: number[];
+}
+
+export const buildDraftExport = (draft: SavedDraft): DraftExport => {
+  const { id, ...draftData } = draft;
+  const { players } = parsePlayerText(draft.rawText, createPlayerIdResolver(draft.playerAliases));
+  return {
+    format: DRAFT_EXPORT_FORMAT,
+    version: DRAFT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    draft: draftData,
+    players,
+    highlightedRanks: players.filter(p => p.isHighlighted).map(p => p.rank),
+  };
+};
+
+// A file name such as "my-league-2026-10-19.json".
+export const getDraftExportFileName = (draft: SavedDraft): string => {
+  const slug = draft.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'draft';
+  return `${slug}-${new Date().toISOString().slice(0, 10)}.json`;
+};
+
+// Validates an exported draft file and turns it into a new library draft.
+export const parseDraftExport = (text: string): { draft: SavedDraft; error: null } | { draft: null; error: string } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    return { draft: null, error: 'The file is not valid JSON.' };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    return { draft: null, error: 'The file is not a draft exported from this simulator.' };
+  }
+  const data = parsed as Record<string, unknown>;
+  if (data.format !== DRAFT_EXPORT_FORMAT) {
+    return { draft: null, error: 'The file is not a draft exported from this simulator.' };
+  }
+  if (typeof data.version !== 'number') {
+    return { draft: null, error: 'The file is missing its format version.' };
+  }
+  if (data.version > DRAFT_EXPORT_VERSION) {
+    return { draft: null, error: `The file uses format version ${data.version}, but this app only reads up to version ${DRAFT_EXPORT_VERSION}. Update the app and try again.` };
+  }
+  if (data.version < 1) {
+    return { draft: null, error: `Format version ${data.version} is no longer supported.` };
+  }
+
+  if (typeof data.draft !== 'object' || data.draft === null) {
+    return { draft: null, error: 'The file does not contain any rankings.' };
+  }
+  const draft = data.draft as Record<string, unknown>;
+  if (typeof draft.rawText !== 'string') {
+    return { draft: null, error: 'The file does not contain any rankings.' };
+  }
+  if (typeof draft.numTeams !== 'number' || !Array.isArray(draft.pickedPlayers)) {
+    return { draft: null, error: 'The file is missing the team count or picks.' };
+  }
+
+  // Imports always become a new draft so they never overwrite an existing one.
+  const fallback = createDraft('Imported Draft');
+  return { draft: sanitizeDraft({ ...draft, id: fallback.id, createdAt: fallback.createdAt }, fallback), error: null };
+};
@@ -0,0 +1,355 @@
+import type { SavedDraft, DraftSummary, ConsensusSettings, Keeper, LeagueSettings, Player, RankingSnapshot } from '../types';
+import { SLEEPER_PLAYER_LIST, DRAFT_FORMATS, DRAFT_MODES, BOT_STRATEGIES, BOARD_RANKINGS, CONSENSUS_METHODS, CONSENSUS_SOURCES, DATA_SOURCES, MIN_TEAMS, MAX_TEAMS, MAX_ROUNDS } from '../constants';
+import { DEFAULT_LEAGUE_SETTINGS, ROSTER_POSITIONS, ROSTER_SLOTS, getTotalRosterSize } from './roster';
+import { ensureTeams, sanitizeTeams } from './teams';
+import { createPlayerIdResolver, rekeyList, rekeyPicks, rekeyRecord } from './playerIdentity';
+import { parsePlayerText } from './parser';
+
+const LIBRARY_KEY = 'draftLibrary';
+const DRAFT_KEY_PREFIX = 'draft:';
+
+// The single-draft keys used before drafts were stored in the library.
+const LEGACY_KEYS = [
+  'numTeams',
+  'draftedPlayerRanks',
+  'customPlayerRankings',
+  'draftMode',
+  'liveDraftPicks',
+  'mockDraftPicks',
+  'botStrategy',
+  'leagueSettings',
+  'mySeat',
+];
+
+export interface DraftLibrary {
+  activeDraftId: string;
+  drafts: DraftSummary[];
+}
+
+// Every built-in source counts the same until the user weighs them.
+const DEFAULT_CONSENSUS_SETTINGS: ConsensusSettings = {
+  method: 'Average',
+  weights: Object.fromEntries(CONSENSUS_SOURCES.map(({ source }) => [source, 1])),
+};
+
+const generateDraftId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const createRankingSnapshot = (name: string, text: string): RankingSnapshot => ({
+  id: generateDraftId(),
+  name,
+  createdAt: Date.now(),
+  text,
+});
+
+export const createDraft = (name: string): SavedDraft => ({
+  id: generateDraftId(),
+  name,
+  createdAt: Date.now(),
+  rawText: SLEEPER_PLAYER_LIST,
+  customRankings: '',
+  dataSource: 'Sleeper PPR',
+  consensus: DEFAULT_CONSENSUS_SETTINGS,
+  numTeams: 10,
+  // One round per roster spot, so every team can fill its roster.
+  numRounds: getTotalRosterSize(DEFAULT_LEAGUE_SETTINGS),
+  teams: ensureTeams([], 10),
+  draftFormat: 'Snake',
+  customDraftOrder: '',
+  tradedPicks: [],
+  keepers: [],
+  mySeat: null,
+  draftMode: 'Projection',
+  botStrategy: 'Best Available',
+  boardRanking: 'Source',
+  leagueSettings: DEFAULT_LEAGUE_SETTINGS,
+  pickedPlayers: [],
+  livePicks: [],
+  mockPicks: [],
+  pickedPlayerNames: {},
+  playerNotes: {},
+  queue: [],
+  autoPickQueue: false,
+  playerAliases: {},
+  rankingSnapshots: [],
+});
+
+const isNumberArray = (value: unknown): value is number[] => {
+  return Array.isArray(value) && value.every(item => typeof item === 'number');
+};
+
+const isPickEntries = (value: unknown): value is [number, number][] => {
+  return Array.isArray(value) && value.every(entry => isNumberArray(entry) && entry.length === 2);
+};
+
+const isPlayerPickEntries = (value: unknown): value is [number, string][] => {
+  return Array.isArray(value) && value.every(entry => Array.isArray(entry) && entry.length === 2
+    && typeof entry[0] === 'number' && typeof entry[1] === 'string');
+};
+
+const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+};
+
+const isIntegerInRange = (value: unknown, min: number, max: number): value is number => {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isStringRecord = (value: unknown): value is Record<string, string> => {
+  return isRecord(value) && Object.values(value).every(entry => typeof entry === 'string');
+};
+
+const isOneOf = <T>(values: readonly T[], value: unknown): value is T => {
+  return values.includes(value as T);
+};
+
+const isRankingSnapshot = (value: unknown): value is RankingSnapshot => {
+  return isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string'
+    && typeof value.createdAt === 'number' && typeof value.text === 'string';
+};
+
+const isKeeper = (value: unknown): value is Keeper => {
+  return isRecord(value) && typeof value.teamIndex === 'number' && typeof value.round === 'number' && typeof value.playerId === 'string';
+};
+
+// Drafts saved before picks were stored by player ID recorded players by rank, and greyed
+// out overall picks in projection mode. Both are matched against the draft's own rankings
+// text, assuming the projection followed the list order.
+const createLegacyPickMigration = (rawText: string, resolveId: (name: string) => string) => {
+  // Parsed only when there is something to migrate.
+  let players: Player[] | null = null;
+  const getPlayers = (): Player[] => {
+    if (!players) {
+      players = parsePlayerText(rawText, resolveId).players;
+    }
+    return players;
+  };
+  const idForRank = (rank: number) => getPlayers().find(p => p.rank === rank)?.id;
+  return {
+    picks: (entries: [number, number][]): [number, string][] => entries
+      .map(([overallPick, rank]): [number, string | undefined] => [overallPick, idForRank(rank)])
+      .filter((entry): entry is [number, string] => entry[1] !== undefined),
+    keepers: (values: unknown[]): Keeper[] => values
+      .filter((k): k is { teamIndex: number; round: number; rank: number } => isRecord(k)
+        && typeof k.teamIndex === 'number' && typeof k.round === 'number' && typeof k.rank === 'number')
+      .map(k => ({ teamIndex: k.teamIndex, round: k.round, playerId: idForRank(k.rank) }))
+      .filter((k): k is Keeper => k.playerId !== undefined),
+    overallPicks: (picks: number[]): string[] => picks
+      .map(pick => getPlayers()[pick - 1]?.id)
+      .filter((id): id is string => id !== undefined),
+  };
+};
+
+const sanitizePicks = (
+  value: unknown,
+  legacy: ReturnType<typeof createLegacyPickMigration>,
+  resolveId: (name: string) => string,
+): [number, string][] => {
+  if (isPlayerPickEntries(value)) return Array.from(rekeyPicks(new Map(value), resolveId));
+  return isPickEntries(value) ? legacy.picks(value) : [];
+};
+
+const sanitizeConsensusSettings = (value: unknown): ConsensusSettings => {
+  if (!isRecord(value)) {
+    return DEFAULT_CONSENSUS_SETTINGS;
+  }
+  const weights = { ...DEFAULT_CONSENSUS_SETTINGS.weights };
+  const storedWeights = value.weights;
+  if (isRecord(storedWeights)) {
+    Object.keys(weights).forEach(source => {
+      const weight = storedWeights[source];
+      if (typeof weight === 'number' && Number.isFinite(weight) && weight >= 0) {
+        weights[source] = weight;
+      }
+    });
+  }
+  return {
+    method: isOneOf(CONSENSUS_METHODS, value.method) ? value.method : DEFAULT_CONSENSUS_SETTINGS.method,
+    weights,
+  };
+};
+
+const isCount = (value: unknown): value is number => isIntegerInRange(value, 0, Number.MAX_SAFE_INTEGER);
+
+// Roster slots and position limits must be whole, non-negative counts; anything else falls back
+// to the default. A position missing from the limits has no limit.
+export const sanitizeLeagueSettings = (value: unknown): LeagueSettings => {
+  if (!value || typeof value !== 'object') {
+    return DEFAULT_LEAGUE_SETTINGS;
+  }
+  const { rosterSlots, positionLimits } = value as { rosterSlots?: unknown; positionLimits?: unknown };
+  const slots = rosterSlots && typeof rosterSlots === 'object' ? rosterSlots as Record<string, unknown> : {};
+  const sanitizedSlots = { ...DEFAULT_LEAGUE_SETTINGS.rosterSlots };
+  ROSTER_SLOTS.forEach(slot => {
+    if (isCount(slots[slot])) {
+      sanitizedSlots[slot] = slots[slot];
+    }
+  });
+  if (!positionLimits || typeof positionLimits !== 'object' || Array.isArray(positionLimits)) {
+    return { rosterSlots: sanitizedSlots, positionLimits: DEFAULT_LEAGUE_SETTINGS.positionLimits };
+  }
+  const limits = positionLimits as Record<string, unknown>;
+  const sanitizedLimits: Record<string, number> = {};
+  ROSTER_POSITIONS.filter(position => position in limits).forEach(position => {
+    const limit = limits[position];
+    const fallback = DEFAULT_LEAGUE_SETTINGS.positionLimits[position];
+    if (isCount(limit)) {
+      sanitizedLimits[position] = limit;
+    } else if (fallback !== undefined) {
+      sanitizedLimits[position] = fallback;
+    }
+  });
+  return { rosterSlots: sanitizedSlots, positionLimits: sanitizedLimits };
+};
+
+// Fills in defaults for anything missing or invalid in stored draft data.
+export const sanitizeDraft = (value: unknown, fallback: SavedDraft): SavedDraft => {
+  if (!isRecord(value)) {
+    return fallback;
+  }
+  const numTeams = isIntegerInRange(value.numTeams, MIN_TEAMS, MAX_TEAMS) ? value.numTeams : fallback.numTeams;
+  const playerAliases = isStringRecord(value.playerAliases) ? value.playerAliases : {};
+  // Older drafts keyed notes and the queue by name, and aliases may have changed since picks were
+  // stored; IDs resolve to themselves, so re-keying everything is safe.
+  const resolveId = createPlayerIdResolver(playerAliases);
+  const rawText = typeof value.rawText === 'string' ? value.rawText : fallback.rawText;
+  const legacy = createLegacyPickMigration(rawText, resolveId);
+  const numRounds = isIntegerInRange(value.numRounds, 1, MAX_ROUNDS) ? value.numRounds : fallback.numRounds;
+  const isTeamIndex = (index: unknown) => isIntegerInRange(index, 0, numTeams - 1);
+  const keepers = Array.isArray(value.keepers) ? value.keepers : [];
+  const validKeepers = (keepers.every(isKeeper)
+    ? keepers.map(keeper => ({ ...keeper, playerId: resolveId(keeper.playerId) }))
+    : legacy.keepers(keepers)
+  ).filter(keeper => isTeamIndex(keeper.teamIndex) && isIntegerInRange(keeper.round, 0, numRounds - 1));
+  const tradedPicks = isPickEntries(value.tradedPicks)
+    ? value.tradedPicks.filter(([overallPick, teamIndex]) => isIntegerInRange(overallPick, 1, numTeams * numRounds) && isTeamIndex(teamIndex))
+    : [];
+  return {
+    id: typeof value.id === 'string' ? value.id : fallback.id,
+    name: typeof value.name === 'string' && value.name.trim() ? value.name : fallback.name,
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : fallback.createdAt,
+    rawText,
+    customRankings: typeof value.customRankings === 'string' ? value.customRankings : fallback.customRankings,
+    dataSource: isOneOf(DATA_SOURCES, value.dataSource) ? value.dataSource : fallback.dataSource,
+    consensus: sanitizeConsensusSettings(value.consensus),
+    numTeams,
+    numRounds,
+    teams: sanitizeTeams(value.teams, numTeams),
+    draftFormat: isOneOf(DRAFT_FORMATS, value.draftFormat) ? value.draftFormat : fallback.draftFormat,
+    customDraftOrder: typeof value.customDraftOrder === 'string' ? value.customDraftOrder : fallback.customDraftOrder,
+    tradedPicks,
+    keepers: validKeepers,
+    mySeat: isTeamIndex(value.mySeat) ? value.mySeat : null,
+    draftMode: isOneOf(DRAFT_MODES, value.draftMode) ? value.draftMode : fallback.draftMode,
+    botStrategy: isOneOf(BOT_STRATEGIES, value.botStrategy) ? value.botStrategy : fallback.botStrategy,
+    boardRanking: isOneOf(BOARD_RANKINGS, value.boardRanking) ? value.boardRanking : fallback.boardRanking,
+    leagueSettings: sanitizeLeagueSettings(value.leagueSettings),
+    pickedPlayers: isStringArray(value.pickedPlayers)
+      ? rekeyList(value.pickedPlayers, resolveId)
+      : isNumberArray(value.pickedPlayers) ? legacy.overallPicks(value.pickedPlayers) : [],
+    livePicks: sanitizePicks(value.livePicks, legacy, resolveId),
+    mockPicks: sanitizePicks(value.mockPicks, legacy, resolveId),
+    pickedPlayerNames: isStringRecord(value.pickedPlayerNames) ? rekeyRecord(value.pickedPlayerNames, resolveId) : {},
+    playerNotes: isStringRecord(value.playerNotes) ? rekeyRecord(value.playerNotes, resolveId) : {},
+    queue: Array.isArray(value.queue) ? rekeyList(value.queue.filter((id: unknown) => typeof id === 'string'), resolveId) : [],
+    autoPickQueue: typeof value.autoPickQueue === 'boolean' ? value.autoPickQueue : fallback.autoPickQueue,
+    playerAliases,
+    rankingSnapshots: Array.isArray(value.rankingSnapshots) ? value.rankingSnapshots.filter(isRankingSnapshot) : [],
+  };
+};
+
+const parseStoredJson = (key: string): unknown => {
+  const saved = localStorage.getItem(key);
+  if (!saved) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error(`Failed to parse ${key} from localStorage`, e);
+    return undefined;
+  }
+};
+
+export const toSummary = (draft: SavedDraft): DraftSummary => ({
+  id: draft.id,
+  name: draft.name,
+  createdAt: draft.createdAt,
+});
+
+export const loadDraft = (id: string): SavedDraft | null => {
+  const stored = parseStoredJson(`${DRAFT_KEY_PREFIX}${id}`);
+  if (!stored) {
+    return null;
+  }
+  return sanitizeDraft(stored, { ...createDraft('Untitled Draft'), id });
+};
+
+export const saveDraft = (draft: SavedDraft) => {
+  localStorage.setItem(`${DRAFT_KEY_PREFIX}${draft.id}`, JSON.stringify(draft));
+};
+
+export const removeDraft = (id: string) => {
+  localStorage.removeItem(`${DRAFT_KEY_PREFIX}${id}`);
+};
+
+export const saveDraftLibrary = (library: DraftLibrary) => {
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(library));
+};
+
+// Builds a draft from the single-draft keys written by earlier versions, if any exist.
+const migrateLegacyDraft = (): SavedDraft | null => {
+  if (!LEGACY_KEYS.some(key => localStorage.getItem(key) !== null)) {
+    return null;
+  }
+
+  const customRankings = localStorage.getItem('customPlayerRankings') || '';
+  const draft = sanitizeDraft({
+    name: 'My Draft',
+    rawText: customRankings || SLEEPER_PLAYER_LIST,
+    customRankings,
+    dataSource: customRankings ? 'Custom' : 'Sleeper PPR',
+    numTeams: parseInt(localStorage.getItem('numTeams') ?? '', 10),
+    mySeat: parseInt(localStorage.getItem('mySeat') ?? '', 10),
+    draftMode: localStorage.getItem('draftMode'),
+    botStrategy: localStorage.getItem('botStrategy'),
+    leagueSettings: parseStoredJson('leagueSettings'),
+    pickedPlayers: parseStoredJson('draftedPlayerRanks'),
+    livePicks: parseStoredJson('liveDraftPicks'),
+    mockPicks: parseStoredJson('mockDraftPicks'),
+  }, createDraft('My Draft'));
+
+  LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+  return draft;
+};
+
+const isStoredSummary = (value: unknown): value is Record<string, unknown> & Pick<DraftSummary, 'id' | 'name'> => {
+  return isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string';
+};
+
+// Loads the library index, migrating or creating a first draft when there is none. Invalid
+// entries and drafts whose data is gone are dropped.
+export const loadDraftLibrary = (): DraftLibrary => {
+  const stored = parseStoredJson(LIBRARY_KEY);
+  const storedLibrary = isRecord(stored) ? stored : {};
+  const drafts = (Array.isArray(storedLibrary.drafts) ? storedLibrary.drafts : [])
+    .filter(isStoredSummary)
+    .filter(summary => localStorage.getItem(`${DRAFT_KEY_PREFIX}${summary.id}`) !== null)
+    .map(summary => ({ id: summary.id, name: summary.name, createdAt: typeof summary.createdAt === 'number' ? summary.createdAt : 0 }));
+
+  if (drafts.length > 0) {
+    const activeDraftId = drafts.find(d => d.id === storedLibrary.activeDraftId)?.id ?? drafts[0].id;
+    return { activeDraftId, drafts };
+  }
+
+  const firstDraft = migrateLegacyDraft() ?? createDraft('My Draft');
+  saveDraft(firstDraft);
+  const library = { activeDraftId: firstDraft.id, drafts: [toSummary(firstDraft)] };
+  saveDraftLibrary(library);
+  return library;
+};
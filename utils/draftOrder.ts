@@ -0,0 +1,174 @@
+import type { DraftBoardData, DraftFormat, DraftOrder, Keeper, Player, Team } from '../types';
+
+export type RoundDirection = 'forward' | 'reverse' | 'mixed';
+
+const forwardOrder = (numTeams: number): number[] => Array.from({ length: numTeams }, (_, t) => t);
+const reverseOrder = (numTeams: number): number[] => forwardOrder(numTeams).reverse();
+
+// Parses a custom order: one line per round, listing 1-based team numbers in pick order.
+// Rounds past the last line repeat the listed rounds from the top.
+export const parseCustomRoundOrders = (text: string, numTeams: number): { rounds: number[][]; error: string | null } => {
+  const rounds: number[][] = [];
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line !== '');
+
+  for (let i = 0; i < lines.length; i++) {
+    const teams = lines[i].split(/[\s,]+/).map(token => parseInt(token, 10) - 1);
+    const isPermutation = teams.length === numTeams
+      && new Set(teams).size === numTeams
+      && teams.every(t => !isNaN(t) && t >= 0 && t < numTeams);
+    if (!isPermutation) {
+      return { rounds, error: `Round ${i + 1} must list each team from 1 to ${numTeams} exactly once.` };
+    }
+    rounds.push(teams);
+  }
+
+  return { rounds, error: null };
+};
+
+export const createDraftOrder = (
+  numTeams: number,
+  numRounds: number,
+  format: DraftFormat,
+  customOrderText = '',
+  tradedPicks: Map<number, number> = new Map(),
+): DraftOrder => {
+  const customRounds = format === 'Custom' ? parseCustomRoundOrders(customOrderText, numTeams).rounds : [];
+  // Trades to teams that no longer exist in a smaller league are ignored.
+  const validTrades = new Map(Array.from(tradedPicks.entries()).filter(([, teamIndex]) => teamIndex < numTeams));
+  return { numTeams, numRounds, format, customRounds, tradedPicks: validTrades };
+};
+
+// The 0-based team indexes in the order they pick in a 0-based round.
+export const getRoundOrder = (order: DraftOrder, round: number): number[] => {
+  const { numTeams } = order;
+  switch (order.format) {
+    case 'Linear':
+      return forwardOrder(numTeams);
+    case '3RR':
+      // Rounds 2 and 3 both run backwards, then the snake resumes from round 4.
+      if (round < 2) {
+        return round === 0 ? forwardOrder(numTeams) : reverseOrder(numTeams);
+      }
+      return round % 2 === 0 ? reverseOrder(numTeams) : forwardOrder(numTeams);
+    case 'Custom':
+      if (order.customRounds.length > 0) {
+        return order.customRounds[round % order.customRounds.length];
+      }
+      return round % 2 === 0 ? forwardOrder(numTeams) : reverseOrder(numTeams);
+    case 'Snake':
+    default:
+      return round % 2 === 0 ? forwardOrder(numTeams) : reverseOrder(numTeams);
+  }
+};
+
+export const getRoundDirection = (order: DraftOrder, round: number): RoundDirection => {
+  const teams = getRoundOrder(order, round);
+  if (teams.every((team, i) => team === i)) return 'forward';
+  if (teams.every((team, i) => team === order.numTeams - 1 - i)) return 'reverse';
+  return 'mixed';
+};
+
+// The 1-based overall pick number for a team's selection in a given round.
+export const getOverallPick = (order: DraftOrder, round: number, teamIndex: number): number => {
+  return round * order.numTeams + getRoundOrder(order, round).indexOf(teamIndex) + 1;
+};
+
+// Inverse of getOverallPick: which round and team own a 1-based overall pick.
+export const getPickSlot = (order: DraftOrder, overallPick: number): { round: number; teamIndex: number } => {
+  const index = overallPick - 1;
+  const round = Math.floor(index / order.numTeams);
+  const teamIndex = getRoundOrder(order, round)[index % order.numTeams];
+  return { round, teamIndex };
+};
+
+// The team that makes an overall pick, which differs from the slot's team when the pick was traded.
+export const getPickOwner = (order: DraftOrder, overallPick: number): number => {
+  return order.tradedPicks.get(overallPick) ?? getPickSlot(order, overallPick).teamIndex;
+};
+
+// Every overall pick a team owns, including picks traded to it, in pick order.
+export const getOwnedPicks = (order: DraftOrder, teamIndex: number, totalPicks: number): number[] => {
+  return Array.from({ length: totalPicks }, (_, i) => i + 1).filter(pick => getPickOwner(order, pick) === teamIndex);
+};
+
+// The overall pick a keeper uses: the team's own slot in the keeper's round, or if that pick was
+// traded away, the first pick the team owns in that round. Null when the team has no pick in it.
+export const getKeeperPick = (order: DraftOrder, keeper: Keeper): number | null => {
+  if (keeper.teamIndex >= order.numTeams || keeper.round >= order.numRounds) {
+    return null;
+  }
+  const ownPick = getOverallPick(order, keeper.round, keeper.teamIndex);
+  if (getPickOwner(order, ownPick) === keeper.teamIndex) {
+    return ownPick;
+  }
+  const roundPicks = Array.from({ length: order.numTeams }, (_, i) => keeper.round * order.numTeams + i + 1);
+  return roundPicks.find(pick => getPickOwner(order, pick) === keeper.teamIndex) ?? null;
+};
+
+// Keepers as locked picks: the overall pick of each keeper mapped to the kept player's ID.
+// Keepers without a pick in their round are left out.
+export const getKeeperPicks = (order: DraftOrder, keepers: Keeper[]): Map<number, string> => {
+  const picks = new Map<number, string>();
+  keepers.forEach(keeper => {
+    const overallPick = getKeeperPick(order, keeper);
+    if (overallPick !== null) {
+      picks.set(overallPick, keeper.playerId);
+    }
+  });
+  return picks;
+};
+
+// The lowest overall pick that has not been made yet.
+export const getNextOpenPick = (picks: { has: (overallPick: number) => boolean }): number => {
+  let overallPick = 1;
+  while (picks.has(overallPick)) {
+    overallPick++;
+  }
+  return overallPick;
+};
+
+// The number of picks in the whole draft.
+export const getTotalPicks = (order: DraftOrder): number => order.numTeams * order.numRounds;
+
+// Lays players, given in overall pick order, out into each team's column of picks.
+// Players beyond the last pick of the draft are left off the board. Columns are keyed by team id.
+export const generateDraftBoard = (players: Player[], order: DraftOrder, teams: Team[]): DraftBoardData => {
+  const { numTeams, numRounds } = order;
+  if (!players.length || numTeams <= 0) {
+    return {};
+  }
+
+  const rounds: (Player | null)[][] = [];
+  
+  for(let r = 0; r < numRounds; r++) {
+    rounds.push(new Array(numTeams).fill(null));
+  }
+  
+  players.forEach((player, index) => {
+    const { round, teamIndex } = getPickSlot(order, index + 1);
+    
+    if (rounds[round] && teamIndex < numTeams) {
+      rounds[round][teamIndex] = player;
+    }
+  });
+
+  const board: DraftBoardData = {};
+  for (let t = 0; t < numTeams; t++) {
+    const teamKey = teams[t].id;
+    board[teamKey] = [];
+    for (let r = 0; r < numRounds; r++) {
+        board[teamKey].push(rounds[r][t]);
+    }
+  }
+
+  return board;
+};
+
+// The players a team takes, in pick order, from players given in overall pick order.
+// Pass the made picks to count only those, or null for the team's full projected roster.
+export const getTeamPlayers = (players: Player[], order: DraftOrder, teamIndex: number, madePicks: Set<number> | null): Player[] => {
+  return players.filter((_, index) => {
+    const overallPick = index + 1;
+    return getPickOwner(order, overallPick) === teamIndex && (madePicks === null || madePicks.has(overallPick));
+  });
+};
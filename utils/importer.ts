@@ -0,0 +1,220 @@
+import type { ImportColumn } from '../types';
+
+export const IMPORT_COLUMNS: ImportColumn[] = ['rank', 'name', 'team', 'position', 'bye', 'adp', 'tier', 'projection', 'ignore'];
+
+export const IMPORT_COLUMN_LABELS: Record<ImportColumn, string> = {
+  rank: 'Rank',
+  name: 'Name',
+  team: 'Team',
+  position: 'Position',
+  bye: 'Bye',
+  adp: 'ADP',
+  tier: 'Tier',
+  projection: 'Projection',
+  ignore: 'Ignore',
+};
+
+// Header spellings used by the common ranking sites' spreadsheet exports.
+const HEADER_ALIASES: Record<Exclude<ImportColumn, 'ignore'>, string[]> = {
+  rank: ['rank', 'rk', 'overall', 'ovr', 'ecr', 'overall rank', 'rank overall', 'consensus rank'],
+  name: ['name', 'player', 'player name', 'playername', 'full name'],
+  team: ['team', 'tm', 'nfl team', 'pro team'],
+  position: ['position', 'pos', 'positions'],
+  bye: ['bye', 'bye week', 'byeweek', 'bye wk'],
+  adp: ['adp', 'avg pick', 'average draft position', 'avg. pick'],
+  tier: ['tier', 'tiers'],
+  projection: ['projection', 'proj', 'projected points', 'proj pts', 'fpts', 'points', 'fantasy points'],
+};
+
+export interface ImportedRow {
+  // 1-based line number of the row in the source text.
+  line: number;
+  rank: number;
+  name: string;
+  position: string;
+  team?: string;
+  bye?: number;
+  adp?: number;
+  tier?: number;
+  projection?: number;
+}
+
+export interface ImportPreview {
+  rows: ImportedRow[];
+  // Problems with individual data rows, keyed by their 1-based line number in the source.
+  rowErrors: { line: number; message: string }[];
+}
+
+const normalizeHeader = (header: string): string => {
+  return header.trim().toLowerCase().replace(/[_\-]+/g, ' ').replace(/\s+/g, ' ');
+};
+
+export const detectColumn = (header: string): ImportColumn | null => {
+  const normalized = normalizeHeader(header);
+  for (const column of Object.keys(HEADER_ALIASES) as (keyof typeof HEADER_ALIASES)[]) {
+    if (HEADER_ALIASES[column].includes(normalized)) {
+      return column;
+    }
+  }
+  return null;
+};
+
+// Picks the delimiter that appears most often in the header line, or null for plain text.
+export const detectDelimiter = (line: string): string | null => {
+  const candidates = ['\t', ',', ';'];
+  let best: string | null = null;
+  let bestCount = 0;
+  candidates.forEach(delimiter => {
+    const count = line.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+// Splits one delimited line into cells, honouring double-quoted cells and "" escapes.
+export const splitDelimitedLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' && current.trim() === '') {
+      inQuotes = true;
+      current = '';
+    } else if (char === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+// True when the line looks like a spreadsheet header row with at least a name column.
+export const isHeaderLine = (line: string): boolean => {
+  const delimiter = detectDelimiter(line);
+  if (!delimiter) {
+    return false;
+  }
+  const columns = splitDelimitedLine(line, delimiter).map(detectColumn);
+  return columns.includes('name') && (columns.includes('rank') || columns.includes('position'));
+};
+
+export const detectColumnMapping = (headers: string[]): ImportColumn[] => {
+  const seen = new Set<ImportColumn>();
+  return headers.map(header => {
+    const column = detectColumn(header);
+    if (!column || seen.has(column)) {
+      return 'ignore';
+    }
+    seen.add(column);
+    return column;
+  });
+};
+
+const parseOptionalNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = parseFloat(value.replace(/[^0-9.\-]/g, ''));
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+export interface DelimitedTable {
+  delimiter: string;
+  headers: string[];
+  // Each data row with its 1-based line number in the source text.
+  rows: { line: number; cells: string[] }[];
+}
+
+export const parseDelimitedTable = (text: string): DelimitedTable | null => {
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex(line => line.trim() !== '');
+  if (headerIndex === -1) {
+    return null;
+  }
+  const delimiter = detectDelimiter(lines[headerIndex]);
+  if (!delimiter) {
+    return null;
+  }
+
+  const rows: DelimitedTable['rows'] = [];
+  lines.slice(headerIndex + 1).forEach((line, index) => {
+    if (line.trim() !== '') {
+      rows.push({ line: headerIndex + index + 2, cells: splitDelimitedLine(line, delimiter) });
+    }
+  });
+
+  return { delimiter, headers: splitDelimitedLine(lines[headerIndex], delimiter), rows };
+};
+
+// Applies a column mapping to the table's rows. Rows without a rank are ranked by their order.
+export const buildImportPreview = (table: DelimitedTable, mapping: ImportColumn[]): ImportPreview => {
+  const rows: ImportedRow[] = [];
+  const rowErrors: ImportPreview['rowErrors'] = [];
+  const cellFor = (cells: string[], column: ImportColumn) => {
+    const index = mapping.indexOf(column);
+    return index === -1 ? undefined : cells[index];
+  };
+
+  if (!mapping.includes('name')) {
+    rowErrors.push({ line: 1, message: 'No column is mapped to Name.' });
+    return { rows, rowErrors };
+  }
+
+  table.rows.forEach(({ line, cells }, index) => {
+    const name = cellFor(cells, 'name')?.trim();
+    if (!name) {
+      rowErrors.push({ line, message: 'Missing player name.' });
+      return;
+    }
+
+    const rankCell = cellFor(cells, 'rank');
+    const rank = rankCell === undefined ? index + 1 : parseInt(rankCell, 10);
+    if (isNaN(rank)) {
+      rowErrors.push({ line, message: `Rank "${rankCell}" is not a number.` });
+      return;
+    }
+
+    rows.push({
+      line,
+      rank,
+      name,
+      position: cellFor(cells, 'position')?.trim() ?? '',
+      team: cellFor(cells, 'team')?.trim() || undefined,
+      bye: parseOptionalNumber(cellFor(cells, 'bye')),
+      adp: parseOptionalNumber(cellFor(cells, 'adp')),
+      tier: parseOptionalNumber(cellFor(cells, 'tier')),
+      projection: parseOptionalNumber(cellFor(cells, 'projection')),
+    });
+  });
+
+  return { rows, rowErrors };
+};
+
+// Writes imported rows back out as tab-separated rankings text with a header row,
+// keeping only the columns that have data.
+export const formatImportedRows = (rows: ImportedRow[]): string => {
+  const optionalColumns = (['team', 'bye', 'adp', 'tier', 'projection'] as const)
+    .filter(column => rows.some(row => row[column] !== undefined));
+  const columns: Exclude<keyof ImportedRow, 'line'>[] = ['rank', 'name', 'position', ...optionalColumns];
+
+  const header = columns.map(column => IMPORT_COLUMN_LABELS[column]).join('\t');
+  const lines = rows.map(row => columns.map(column => row[column] ?? '').join('\t'));
+  return [header, ...lines].join('\n');
+};
@@ -0,0 +1,101 @@
+import type { Player, BotStrategy, DraftOrder, LeagueSettings } from '../types';
+import { getNextOpenPick, getPickOwner, getTotalPicks } from './draftOrder';
+import { assignRoster, getRosterPosition, getStarterFill } from './roster';
+
+// How far down the board a positional-need bot will reach to fill a starter.
+const NEED_REACH_WINDOW = 8;
+
+// Maximum number of picks an ADP bot will drift from a player's ADP in either direction.
+const ADP_NOISE_PICKS = 6;
+
+// The players a team has drafted so far, in pick order.
+export const getTeamRoster = (players: Player[], picks: Map<number, string>, teamIndex: number, order: DraftOrder): Player[] => {
+  const playersById = new Map(players.map(p => [p.id, p]));
+  return Array.from(picks.entries())
+    .filter(([overallPick]) => getPickOwner(order, overallPick) === teamIndex)
+    .sort(([a], [b]) => a - b)
+    .map(([, playerId]) => playersById.get(playerId))
+    .filter((p): p is Player => p !== undefined);
+};
+
+const countPositions = (roster: Player[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  roster.forEach(p => {
+    const position = getRosterPosition(p.position);
+    if (position) {
+      counts[position] = (counts[position] || 0) + 1;
+    }
+  });
+  return counts;
+};
+
+// Chooses a player for a bot from the available players, which must be sorted by rank.
+export const chooseBotPick = (
+  available: Player[],
+  roster: Player[],
+  strategy: BotStrategy,
+  settings: LeagueSettings,
+  random: () => number = Math.random,
+): Player | null => {
+  if (available.length === 0) {
+    return null;
+  }
+
+  switch (strategy) {
+    case 'Best Available':
+      return available[0];
+
+    case 'Positional Need': {
+      const counts = countPositions(roster);
+      const underLimit = available.filter(p => {
+        const position = getRosterPosition(p.position);
+        if (!position || settings.positionLimits[position] === undefined) {
+          return true;
+        }
+        return (counts[position] || 0) < settings.positionLimits[position];
+      });
+      const pool = underLimit.length > 0 ? underLimit : available;
+      const startersFilled = getStarterFill(assignRoster(roster, settings), settings).filled;
+      const fillsNeed = pool.slice(0, NEED_REACH_WINDOW).find(p => {
+        return getStarterFill(assignRoster([...roster, p], settings), settings).filled > startersFilled;
+      });
+      return fillsNeed ?? pool[0];
+    }
+
+    case 'ADP + Noise': {
+      // Players without ADP fall back to their rank. Each player's draft spot is jittered and the earliest wins.
+      const byAdp = [...available].sort((a, b) => (a.adp ?? a.rank) - (b.adp ?? b.rank));
+      let best = byAdp[0];
+      let bestScore = Infinity;
+      byAdp.slice(0, ADP_NOISE_PICKS * 3).forEach(p => {
+        const score = (p.adp ?? p.rank) + (random() * 2 - 1) * ADP_NOISE_PICKS;
+        if (score < bestScore) {
+          best = p;
+          bestScore = score;
+        }
+      });
+      return best;
+    }
+  }
+};
+
+// Chooses the next open pick on behalf of whichever bot is on the clock. `picks` holds
+// every pick already made, including keepers.
+export const makeBotPick = (
+  players: Player[],
+  picks: Map<number, string>,
+  order: DraftOrder,
+  strategy: BotStrategy,
+  settings: LeagueSettings,
+): { overallPick: number; player: Player } | null => {
+  const overallPick = getNextOpenPick(picks);
+  if (overallPick > Math.min(players.length, getTotalPicks(order))) {
+    return null;
+  }
+
+  const takenIds = new Set(picks.values());
+  const available = players.filter(p => !takenIds.has(p.id)).sort((a, b) => a.rank - b.rank);
+  const roster = getTeamRoster(players, picks, getPickOwner(order, overallPick), order);
+  const choice = chooseBotPick(available, roster, strategy, settings);
+  return choice ? { overallPick, player: choice } : null;
+};
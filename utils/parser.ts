@@ -0,0 +1,150 @@
+import type { Player, ParseIssue, ParseResult } from '../types';
+import { buildImportPreview, detectColumnMapping, isHeaderLine, parseDelimitedTable } from './importer';
+import { getRosterPosition } from './roster';
+import { splitPositionToken } from './positions';
+import { createPlayerIdResolver } from './playerIdentity';
+
+// Strips the trailing `*` that marks a highlighted player.
+const stripHighlight = (line: string): { text: string; isHighlighted: boolean } => {
+  const trimmed = line.trim();
+  const isHighlighted = trimmed.endsWith('*');
+  return { text: isHighlighted ? trimmed.slice(0, -1).trim() : trimmed, isHighlighted };
+};
+
+const malformed = (lineIndex: number, message: string): ParseIssue => ({
+  line: lineIndex + 1,
+  severity: 'error',
+  kind: 'malformed',
+  message,
+});
+
+// Parses rankings text that starts with a spreadsheet header row (CSV or TSV).
+const parseDelimitedPlayerText = (text: string, resolveId: (name: string) => string): ParseResult => {
+  const lines = text.split('\n');
+  const highlights = lines.map(line => stripHighlight(line));
+  const table = parseDelimitedTable(highlights.map(h => h.text).join('\n'));
+  if (!table) {
+    return { players: [], issues: [] };
+  }
+
+  const { rows, rowErrors } = buildImportPreview(table, detectColumnMapping(table.headers));
+  const issues = rowErrors.map(({ line, message }) => malformed(line - 1, `${message} Line skipped.`));
+
+  const players = rows.map((row): Player => {
+    const lineIndex = row.line - 1;
+    return {
+      id: resolveId(row.name),
+      rank: row.rank,
+      name: row.name,
+      ...splitPositionToken(row.position),
+      isHighlighted: highlights[lineIndex].isHighlighted,
+      lineIndex,
+      team: row.team,
+      byeWeek: row.bye,
+      tier: row.tier,
+      adp: row.adp,
+      projectedPoints: row.projection,
+    };
+  });
+  return { players, issues };
+};
+
+const parseWhitespacePlayerText = (text: string, resolveId: (name: string) => string): ParseResult => {
+  const players: Player[] = [];
+  const issues: ParseIssue[] = [];
+  const lines = text.split('\n');
+  
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex];
+    if (!line.trim()) continue;
+    
+    const { text: processedLine, isHighlighted } = stripHighlight(line);
+    
+    const parts = processedLine.split(/\s+/);
+    
+    if (parts.length < 3) {
+      issues.push(malformed(lineIndex, 'Each line must have rank, name, and position. Line skipped.'));
+      continue;
+    }
+    
+    const rank = parseInt(parts[0], 10);
+    const positionToken = parts[parts.length - 1];
+    const name = parts.slice(1, -1).join(' ');
+
+    if (isNaN(rank) || !name || !positionToken) {
+      issues.push(malformed(lineIndex, `Could not read a rank from "${parts[0]}". Line skipped.`));
+      continue;
+    }
+
+    players.push({ id: resolveId(name), rank, name, ...splitPositionToken(positionToken), isHighlighted, lineIndex });
+  }
+
+  return { players, issues };
+};
+
+// Problems that only show up when looking at the parsed list as a whole.
+const findListIssues = (players: Player[]): ParseIssue[] => {
+  const issues: ParseIssue[] = [];
+  const linesByRank = new Map<number, number>();
+  const linesById = new Map<string, number>();
+
+  players.forEach(player => {
+    const line = player.lineIndex + 1;
+
+    const rankLine = linesByRank.get(player.rank);
+    if (rankLine !== undefined) {
+      issues.push({ line, severity: 'warning', kind: 'duplicate-rank', message: `Rank ${player.rank} is also used on line ${rankLine}.` });
+    } else {
+      linesByRank.set(player.rank, line);
+    }
+
+    // Compared by ID, so "DJ Moore" and "D.J. Moore" count as the same player.
+    const nameLine = linesById.get(player.id);
+    if (nameLine !== undefined) {
+      issues.push({ line, severity: 'warning', kind: 'duplicate-name', message: `${player.name} is already listed on line ${nameLine}.` });
+    } else {
+      linesById.set(player.id, line);
+    }
+
+    if (!getRosterPosition(player.position)) {
+      issues.push({ line, severity: 'warning', kind: 'unknown-position', message: player.position ? `Unknown position "${player.position}".` : 'Missing position.' });
+    }
+  });
+
+  const sortedRanks = Array.from(linesByRank.keys()).sort((a, b) => a - b);
+  sortedRanks.forEach((rank, index) => {
+    const previous = index === 0 ? 0 : sortedRanks[index - 1];
+    if (rank > previous + 1) {
+      const missing = rank - previous === 2 ? `Rank ${previous + 1} is` : `Ranks ${previous + 1}-${rank - 1} are`;
+      issues.push({ line: linesByRank.get(rank)!, severity: 'warning', kind: 'rank-gap', message: `${missing} missing.` });
+    }
+  });
+
+  return issues;
+};
+
+// Parses every line it can and reports all problems, so one typo doesn't empty the board.
+export const parsePlayerText = (text: string, resolveId = createPlayerIdResolver({})): ParseResult => {
+  const firstLine = text.split('\n').find(line => line.trim() !== '');
+  const { players, issues } = firstLine && isHeaderLine(firstLine)
+    ? parseDelimitedPlayerText(text, resolveId)
+    : parseWhitespacePlayerText(text, resolveId);
+
+  const allIssues = [...issues, ...findListIssues(players)].sort((a, b) => a.line - b.line);
+  return { players, issues: allIssues };
+};
+
+// Adds or removes the trailing `*` highlight marker on one line of the rankings text.
+export const toggleHighlightLine = (text: string, lineIndex: number): string => {
+  const lines = text.split('\n');
+  const line = lines[lineIndex];
+  if (line === undefined) {
+    return text;
+  }
+  if (line.trim().endsWith('*')) {
+    lines[lineIndex] = line.trim().slice(0, -1).trim();
+  } else {
+    lines[lineIndex] = `${line.trim()} *`;
+  }
+  return lines.join('\n');
+};
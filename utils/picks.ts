@@ -0,0 +1,42 @@
+import type { Keeper } from '../types';
+
+// A stored pick whose player is not in the current rankings.
+export interface OrphanedPick {
+  playerId: string;
+  // A live or mock pick, a keeper, or a player greyed out in projection mode.
+  kind: 'pick' | 'keeper' | 'projection';
+  // For picks, the overall pick it was made with.
+  overallPick?: number;
+  keeper?: Keeper;
+}
+
+// Recorded picks whose player is still in the rankings.
+export const withoutOrphans = (picks: Map<number, string>, playerIds: Set<string>): Map<number, string> => {
+  return new Map(Array.from(picks).filter(([, playerId]) => playerIds.has(playerId)));
+};
+
+// Every stored pick that points at a player no longer in the rankings, keepers first and
+// then in pick order. `recordedPicks` is null in projection mode, which greys out players instead.
+export const getOrphanedPicks = (
+  playerIds: Set<string>,
+  keepers: Keeper[],
+  recordedPicks: Map<number, string> | null,
+  pickedPlayers: Set<string>,
+): OrphanedPick[] => {
+  const orphaned: OrphanedPick[] = keepers
+    .filter(keeper => !playerIds.has(keeper.playerId))
+    .map(keeper => ({ playerId: keeper.playerId, kind: 'keeper', keeper }));
+  if (recordedPicks) {
+    Array.from(recordedPicks)
+      .filter(([, playerId]) => !playerIds.has(playerId))
+      .sort(([a], [b]) => a - b)
+      .forEach(([overallPick, playerId]) => orphaned.push({ playerId, kind: 'pick', overallPick }));
+  } else {
+    pickedPlayers.forEach(playerId => {
+      if (!playerIds.has(playerId)) {
+        orphaned.push({ playerId, kind: 'projection' });
+      }
+    });
+  }
+  return orphaned;
+};
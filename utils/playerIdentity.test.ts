@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { createPlayerIdResolver, normalizeName } from './playerIdentity';
+
+describe('normalizeName', () => {
+  it('ignores punctuation, suffixes and spaced initials', () => {
+    expect(normalizeName('D.J. Moore')).toBe('dj moore');
+    expect(normalizeName('D. J. Moore')).toBe('dj moore');
+    expect(normalizeName('Marvin Harrison Jr.')).toBe('marvin harrison');
+    expect(normalizeName("Ja'Marr Chase")).toBe('jamarr chase');
+  });
+});
+
+describe('createPlayerIdResolver', () => {
+  it('applies the built-in aliases', () => {
+    const resolveId = createPlayerIdResolver({});
+    expect(resolveId('Hollywood Brown')).toBe('marquise brown');
+    expect(resolveId('Marquise Brown')).toBe('marquise brown');
+  });
+
+  it('lets a user alias reverse a built-in one', () => {
+    const resolveId = createPlayerIdResolver({ 'Marquise Brown': 'Hollywood Brown' });
+    expect(resolveId('Marquise Brown')).toBe('hollywood brown');
+    expect(resolveId('Hollywood Brown')).toBe('hollywood brown');
+  });
+
+  it('gives every name in a cycle of user aliases the same ID', () => {
+    const resolveId = createPlayerIdResolver({ 'Player A': 'Player B', 'Player B': 'Player C', 'Player C': 'Player A' });
+    expect(new Set(['Player A', 'Player B', 'Player C'].map(resolveId))).toEqual(new Set(['player a']));
+  });
+});
@@ -0,0 +1,108 @@
+// Player IDs are normalized names, so the same player gets the same ID in every rankings
+// list regardless of punctuation, suffixes or nicknames. Notes, the queue and the
+// consensus ranking are all keyed by them.
+
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'v']);
+
+// Nicknames and shortened names the ranking sites are known to use interchangeably,
+// as normalized alias → normalized name.
+const BUILT_IN_ALIASES: Record<string, string> = {
+  'hollywood brown': 'marquise brown',
+  'cam ward': 'cameron ward',
+  'cam skattebo': 'cameron skattebo',
+  'tet mcmillan': 'tetairoa mcmillan',
+  'kenny gainwell': 'kenneth gainwell',
+  'tank dell': 'nathaniel dell',
+  'chig okonkwo': 'chigoziem okonkwo',
+  'gabe davis': 'gabriel davis',
+  'josh palmer': 'joshua palmer',
+  'mitch trubisky': 'mitchell trubisky',
+  'bam knight': 'zonovan knight',
+  'pop douglas': 'demario douglas',
+  'scotty miller': 'scott miller',
+};
+
+export const BUILT_IN_ALIAS_COUNT = Object.keys(BUILT_IN_ALIASES).length;
+
+// Lowercase, without accents, punctuation or generational suffixes, and with initials
+// run together, so "D.J. Moore", "D. J. Moore" and "DJ Moore" or "Marvin Harrison Jr."
+// and "Marvin Harrison" share a key.
+export const normalizeName = (name: string): string => {
+  const parts = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter((part, index) => index === 0 || !NAME_SUFFIXES.has(part));
+
+  const merged: string[] = [];
+  parts.forEach((part, index) => {
+    const previous = parts[index - 1];
+    if (part.length === 1 && previous !== undefined && previous.length === 1) {
+      merged[merged.length - 1] += part;
+    } else {
+      merged.push(part);
+    }
+  });
+  return merged.join(' ');
+};
+
+// Returns a function that maps a player name to its ID. User aliases (alias name → player
+// name, as typed) are applied on top of the built-in ones and win over them: a user alias
+// replaces any built-in alias from the same name or back the other way.
+export const createPlayerIdResolver = (userAliases: Record<string, string>): ((name: string) => string) => {
+  const aliases = new Map(Object.entries(BUILT_IN_ALIASES));
+  Object.entries(userAliases).forEach(([alias, name]) => {
+    const aliasKey = normalizeName(alias);
+    const nameKey = normalizeName(name);
+    if (aliasKey && nameKey && aliasKey !== nameKey) {
+      if (BUILT_IN_ALIASES[nameKey] === aliasKey && aliases.get(nameKey) === aliasKey) {
+        aliases.delete(nameKey);
+      }
+      aliases.set(aliasKey, nameKey);
+    }
+  });
+
+  return (name: string) => {
+    let key = normalizeName(name);
+    // Aliases may point at other aliases. User aliases can still form a cycle among
+    // themselves, which resolves to its alphabetically first name so every name in it
+    // gets the same ID.
+    const path: string[] = [];
+    while (aliases.has(key)) {
+      const cycleStart = path.indexOf(key);
+      if (cycleStart !== -1) {
+        return path.slice(cycleStart).sort()[0];
+      }
+      path.push(key);
+      key = aliases.get(key) as string;
+    }
+    return key;
+  };
+};
+
+// Moves entries keyed by an outdated ID, e.g. a name from before IDs existed or before an
+// alias was added, to the current ID. The first entry wins when two end up on one ID.
+export const rekeyRecord = <T>(record: Record<string, T>, resolveId: (name: string) => string): Record<string, T> => {
+  const rekeyed: Record<string, T> = {};
+  Object.entries(record).forEach(([key, value]) => {
+    const id = resolveId(key);
+    if (!(id in rekeyed)) {
+      rekeyed[id] = value;
+    }
+  });
+  return rekeyed;
+};
+
+// The same for lists of IDs, dropping duplicates while keeping the order.
+export const rekeyList = (ids: string[], resolveId: (name: string) => string): string[] => {
+  return Array.from(new Set(ids.map(resolveId)));
+};
+
+// The same for picks, keeping each on its overall pick.
+export const rekeyPicks = (picks: Map<number, string>, resolveId: (name: string) => string): Map<number, string> => {
+  return new Map(Array.from(picks, ([overallPick, playerId]): [number, string] => [overallPick, resolveId(playerId)]));
+};
@@ -0,0 +1,45 @@
+import type { Player } from '../types';
+
+export type PositionFamily = 'QB' | 'RB' | 'WR' | 'TE' | 'Other';
+
+export const POSITION_FAMILIES: PositionFamily[] = ['QB', 'RB', 'WR', 'TE', 'Other'];
+
+// Groups positions by their first two letters, so e.g. "WR" and "WR/RB" share a family.
+export const getPositionFamily = (position: string): PositionFamily => {
+  const prefix = position.slice(0, 2).toUpperCase();
+  return POSITION_FAMILIES.find(family => family === prefix) ?? 'Other';
+};
+
+export const getPositionColorClasses = (position: string): { border: string; text: string; } => {
+  switch (getPositionFamily(position)) {
+    case 'WR':
+      return { border: 'border-l-sky-400', text: 'text-sky-400' };
+    case 'RB':
+      return { border: 'border-l-emerald-400', text: 'text-emerald-400' };
+    case 'TE':
+      return { border: 'border-l-amber-400', text: 'text-amber-400' };
+    case 'QB':
+      return { border: 'border-l-rose-400', text: 'text-rose-400' };
+    default:
+      return { border: 'border-l-gray-500', text: 'text-gray-400' };
+  }
+};
+
+// Strips positional rank suffixes so that e.g. "WR1" and "WR" both map to "WR".
+export const getBasePosition = (position: string): string => {
+  return position.toUpperCase().replace(/\d+$/, '');
+};
+
+// Splits a ranking list position token such as "WR12" into the position and its positional rank.
+export const splitPositionToken = (token: string): { position: string; positionalRank?: number } => {
+  const match = token.match(/^(.*?[A-Za-z/])(\d+)$/);
+  if (!match) {
+    return { position: token };
+  }
+  return { position: match[1], positionalRank: parseInt(match[2], 10) };
+};
+
+// The position as it appeared in the rankings, e.g. "WR1", or just "WR" without a positional rank.
+export const formatPosition = (player: Player): string => {
+  return player.positionalRank === undefined ? player.position : `${player.position}${player.positionalRank}`;
+};
@@ -0,0 +1,94 @@
+import type { Player } from '../types';
+
+export type RankingChangeKind = 'riser' | 'faller' | 'unchanged' | 'added' | 'removed';
+
+export interface RankingChange {
+  playerId: string;
+  // As spelled in the newer list, or the older one for removed players.
+  name: string;
+  position: string;
+  fromRank: number | null;
+  toRank: number | null;
+  // Spots gained, so risers are positive and fallers negative; null for added and removed players.
+  delta: number | null;
+  kind: RankingChangeKind;
+}
+
+// One rankings text the user can compare: a built-in list, the board, or a saved snapshot.
+export interface RankingOption {
+  id: string;
+  label: string;
+  text: string;
+}
+
+export const RANK_CHANGE_COLORS: Record<RankingChangeKind, string> = {
+  riser: 'text-green-400',
+  faller: 'text-red-400',
+  unchanged: 'text-gray-500',
+  added: 'text-sky-300',
+  removed: 'text-gray-400',
+};
+
+const getKind = (fromRank: number | null, toRank: number | null): RankingChangeKind => {
+  if (fromRank === null) return 'added';
+  if (toRank === null) return 'removed';
+  if (toRank < fromRank) return 'riser';
+  return toRank > fromRank ? 'faller' : 'unchanged';
+};
+
+// Every player in either list, matched by player ID, in the newer list's order with
+// removed players last in the order they had.
+export const diffRankings = (from: Player[], to: Player[]): RankingChange[] => {
+  const fromById = new Map<string, Player>();
+  from.forEach(p => {
+    if (!fromById.has(p.id)) fromById.set(p.id, p);
+  });
+  const toIds = new Set<string>();
+  const changes: RankingChange[] = [];
+
+  [...to].sort((a, b) => a.rank - b.rank).forEach(p => {
+    if (toIds.has(p.id)) return;
+    toIds.add(p.id);
+    const fromRank = fromById.get(p.id)?.rank ?? null;
+    changes.push({
+      playerId: p.id,
+      name: p.name,
+      position: p.position,
+      fromRank,
+      toRank: p.rank,
+      delta: fromRank === null ? null : fromRank - p.rank,
+      kind: getKind(fromRank, p.rank),
+    });
+  });
+
+  Array.from(fromById.values())
+    .filter(p => !toIds.has(p.id))
+    .sort((a, b) => a.rank - b.rank)
+    .forEach(p => changes.push({
+      playerId: p.id,
+      name: p.name,
+      position: p.position,
+      fromRank: p.rank,
+      toRank: null,
+      delta: null,
+      kind: 'removed',
+    }));
+
+  return changes;
+};
+
+// A short label for a change, e.g. "▲3", "▼12", "New" or "Out".
+export const formatRankChange = (change: RankingChange): string => {
+  switch (change.kind) {
+    case 'riser':
+      return `▲${change.delta}`;
+    case 'faller':
+      return `▼${-change.delta!}`;
+    case 'added':
+      return 'New';
+    case 'removed':
+      return 'Out';
+    default:
+      return '–';
+  }
+};
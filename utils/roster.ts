@@ -0,0 +1,190 @@
+import type { Player, LeagueSettings, RosterSlot } from '../types';
+import { getBasePosition } from './positions';
+
+export const ROSTER_SLOTS: RosterSlot[] = ['QB', 'RB', 'WR', 'TE', 'FLEX', 'SUPERFLEX', 'K', 'DST', 'BENCH'];
+
+export const STARTER_SLOTS: RosterSlot[] = ROSTER_SLOTS.filter(slot => slot !== 'BENCH');
+
+export const ROSTER_POSITIONS = ['QB', 'RB', 'WR', 'TE', 'K', 'DST'];
+
+// Which roster positions may fill each flexible starting slot.
+export const FLEX_ELIGIBLE = ['RB', 'WR', 'TE'];
+export const SUPERFLEX_ELIGIBLE = ['QB', 'RB', 'WR', 'TE'];
+
+export const DEFAULT_LEAGUE_SETTINGS: LeagueSettings = {
+  rosterSlots: {
+    QB: 1,
+    RB: 2,
+    WR: 2,
+    TE: 1,
+    FLEX: 1,
+    SUPERFLEX: 0,
+    K: 1,
+    DST: 1,
+    BENCH: 6,
+  },
+  positionLimits: {
+    QB: 3,
+    RB: 7,
+    WR: 7,
+    TE: 3,
+    K: 1,
+    DST: 1,
+  },
+};
+
+export interface RosterAssignment {
+  starters: Record<RosterSlot, Player[]>;
+  bench: Player[];
+  // Players that do not fit anywhere on the roster.
+  overflow: Player[];
+}
+
+// Maps a ranking list position (e.g. "WR1", "RB", "D/ST", "PK") to a roster position, or null if unknown.
+export const getRosterPosition = (position: string): string | null => {
+  const base = getBasePosition(position).replace(/[^A-Z]/g, '');
+  switch (base) {
+    case 'QB':
+    case 'RB':
+    case 'WR':
+    case 'TE':
+      return base;
+    case 'K':
+    case 'PK':
+      return 'K';
+    case 'DST':
+    case 'DEF':
+    case 'D':
+      return 'DST';
+    default:
+      return null;
+  }
+};
+
+export const getTotalRosterSize = (settings: LeagueSettings): number => {
+  return ROSTER_SLOTS.reduce((total, slot) => total + settings.rosterSlots[slot], 0);
+};
+
+export const getStarterCount = (settings: LeagueSettings): number => {
+  return STARTER_SLOTS.reduce((total, slot) => total + settings.rosterSlots[slot], 0);
+};
+
+// Places drafted players into roster slots: dedicated positions first, then FLEX,
+// then SUPERFLEX, then the bench. Players are taken in the order given.
+export const assignRoster = (players: Player[], settings: LeagueSettings): RosterAssignment => {
+  const starters = Object.fromEntries(ROSTER_SLOTS.map(slot => [slot, [] as Player[]])) as Record<RosterSlot, Player[]>;
+  const hasRoom = (slot: RosterSlot) => starters[slot].length < settings.rosterSlots[slot];
+
+  let remaining: Player[] = [];
+  players.forEach(player => {
+    const position = getRosterPosition(player.position) as RosterSlot | null;
+    if (position && hasRoom(position)) {
+      starters[position].push(player);
+    } else {
+      remaining.push(player);
+    }
+  });
+
+  const fillFlexSlot = (slot: RosterSlot, eligible: string[]) => {
+    remaining = remaining.filter(player => {
+      const position = getRosterPosition(player.position);
+      if (position && eligible.includes(position) && hasRoom(slot)) {
+        starters[slot].push(player);
+        return false;
+      }
+      return true;
+    });
+  };
+
+  fillFlexSlot('FLEX', FLEX_ELIGIBLE);
+  // Quarterbacks get first claim on SUPERFLEX since nothing else they can start in is left.
+  fillFlexSlot('SUPERFLEX', ['QB']);
+  fillFlexSlot('SUPERFLEX', SUPERFLEX_ELIGIBLE);
+
+  const benchSize = settings.rosterSlots.BENCH;
+  return {
+    starters,
+    bench: remaining.slice(0, benchSize),
+    overflow: remaining.slice(benchSize),
+  };
+};
+
+// Number of starting slots filled versus the total the league requires.
+export const getStarterFill = (assignment: RosterAssignment, settings: LeagueSettings): { filled: number; needed: number } => {
+  const filled = STARTER_SLOTS.reduce((total, slot) => total + assignment.starters[slot].length, 0);
+  return { filled, needed: getStarterCount(settings) };
+};
+
+// Human-readable problems with a team's drafted players under the league's rules.
+export const validateRoster = (players: Player[], settings: LeagueSettings): string[] => {
+  const issues: string[] = [];
+  const counts: Record<string, number> = {};
+
+  players.forEach(player => {
+    const position = getRosterPosition(player.position);
+    if (!position) {
+      issues.push(`${player.name} has an unrecognized position "${player.position}".`);
+      return;
+    }
+    counts[position] = (counts[position] || 0) + 1;
+  });
+
+  Object.entries(counts).forEach(([position, count]) => {
+    const limit = settings.positionLimits[position];
+    if (limit !== undefined && count > limit) {
+      issues.push(`${count} ${position}s drafted, the league limit is ${limit}.`);
+    }
+  });
+
+  const rosterSize = getTotalRosterSize(settings);
+  if (players.length > rosterSize) {
+    issues.push(`${players.length} players drafted, but the roster only has ${rosterSize} spots.`);
+  }
+
+  return issues;
+};
+
+export interface RosterSummary {
+  // Players grouped by roster position in ROSTER_POSITIONS order, with unknown positions under "Other".
+  groups: { position: string; players: Player[] }[];
+  // Bye weeks where two or more players at the same position are out together.
+  byeConflicts: { week: number; position: string; players: Player[] }[];
+  projectedPoints: number;
+  // False when no player on the roster has a projection, so the total means nothing.
+  hasProjections: boolean;
+}
+
+export const summarizeRoster = (players: Player[]): RosterSummary => {
+  const byPosition = new Map<string, Player[]>();
+  players.forEach(p => {
+    const position = getRosterPosition(p.position) ?? 'Other';
+    byPosition.set(position, [...(byPosition.get(position) ?? []), p]);
+  });
+  const groups = [...ROSTER_POSITIONS, 'Other']
+    .filter(position => byPosition.has(position))
+    .map(position => ({ position, players: byPosition.get(position)! }));
+
+  const byeConflicts: RosterSummary['byeConflicts'] = [];
+  groups.forEach(({ position, players: group }) => {
+    const byWeek = new Map<number, Player[]>();
+    group.forEach(p => {
+      if (p.byeWeek !== undefined) {
+        byWeek.set(p.byeWeek, [...(byWeek.get(p.byeWeek) ?? []), p]);
+      }
+    });
+    byWeek.forEach((weekPlayers, week) => {
+      if (weekPlayers.length > 1) {
+        byeConflicts.push({ week, position, players: weekPlayers });
+      }
+    });
+  });
+  byeConflicts.sort((a, b) => a.week - b.week);
+
+  const projected = players.filter(p => p.projectedPoints !== undefined);
+  return {
+    groups,
+    byeConflicts,
+    projectedPoints: projected.reduce((total, p) => total + p.projectedPoints!, 0),
+    hasProjections: projected.length > 0,
+  };
+};
@@ -0,0 +1,36 @@
+import type { Team } from '../types';
+
+// Prefixed so ids never look like array indexes, which would reorder object keys.
+const generateTeamId = (): string => {
+  return `team-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+export const createTeam = (): Team => ({ id: generateTeamId(), name: '', owner: '' });
+
+// Pads the list to at least numTeams. Extra teams are kept so their names come back
+// if the league grows again after shrinking.
+export const ensureTeams = (teams: Team[], numTeams: number): Team[] => {
+  if (teams.length >= numTeams) {
+    return teams;
+  }
+  return [...teams, ...Array.from({ length: numTeams - teams.length }, createTeam)];
+};
+
+// The display name of the team in a 0-based draft slot, falling back to "Team N".
+export const getTeamName = (teams: Team[], teamIndex: number): string => {
+  return teams[teamIndex]?.name.trim() || `Team ${teamIndex + 1}`;
+};
+
+const isTeam = (value: unknown): value is Team => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const team = value as Record<string, unknown>;
+  return typeof team.id === 'string' && typeof team.name === 'string' && typeof team.owner === 'string';
+};
+
+export const sanitizeTeams = (value: unknown, numTeams: number): Team[] => {
+  const teams = Array.isArray(value) ? value.filter(isTeam) : [];
+  const uniqueTeams = teams.filter((team, index) => teams.findIndex(t => t.id === team.id) === index);
+  return ensureTeams(uniqueTeams, numTeams);
+};
@@ -0,0 +1,73 @@
+import type { LeagueSettings, Player, RosterSlot } from '../types';
+import { FLEX_ELIGIBLE, ROSTER_POSITIONS, SUPERFLEX_ELIGIBLE, getRosterPosition } from './roster';
+
+// Projected players at each roster position, best first.
+const groupProjections = (players: Player[]): Map<string, number[]> => {
+  const groups = new Map<string, number[]>(ROSTER_POSITIONS.map(position => [position, []]));
+  players.forEach(p => {
+    const position = getRosterPosition(p.position);
+    if (position && p.projectedPoints !== undefined) {
+      groups.get(position)!.push(p.projectedPoints);
+    }
+  });
+  groups.forEach(points => points.sort((a, b) => b - a));
+  return groups;
+};
+
+// Hands each flexible slot in the league to whichever eligible position has the best
+// player not yet counted as a starter.
+const fillFlexSlots = (starters: Map<string, number>, groups: Map<string, number[]>, eligible: string[], slots: number) => {
+  for (let i = 0; i < slots; i++) {
+    let best: string | null = null;
+    eligible.forEach(position => {
+      const next = groups.get(position)![starters.get(position)!];
+      const bestNext = best === null ? undefined : groups.get(best)![starters.get(best)!];
+      if (next !== undefined && (bestNext === undefined || next > bestNext)) {
+        best = position;
+      }
+    });
+    if (best === null) return;
+    starters.set(best, starters.get(best)! + 1);
+  }
+};
+
+// The projected points of the best player at each position who would not start on any
+// team in the league, i.e. what a team can get for free off waivers.
+export const getReplacementLevels = (players: Player[], settings: LeagueSettings, numTeams: number): Map<string, number> => {
+  const groups = groupProjections(players);
+  const starters = new Map(ROSTER_POSITIONS.map(position => [position, (settings.rosterSlots[position as RosterSlot] ?? 0) * numTeams]));
+  fillFlexSlots(starters, groups, FLEX_ELIGIBLE, settings.rosterSlots.FLEX * numTeams);
+  fillFlexSlots(starters, groups, SUPERFLEX_ELIGIBLE, settings.rosterSlots.SUPERFLEX * numTeams);
+
+  const levels = new Map<string, number>();
+  groups.forEach((points, position) => {
+    if (points.length > 0) {
+      levels.set(position, points[Math.min(starters.get(position)!, points.length - 1)]);
+    }
+  });
+  return levels;
+};
+
+// Value over replacement for every player with a projection and a known position, keyed by
+// player ID. A player listed twice keeps the value of their first listing.
+export const getValueOverReplacement = (players: Player[], settings: LeagueSettings, numTeams: number): Map<string, number> => {
+  const levels = getReplacementLevels(players, settings, numTeams);
+  const values = new Map<string, number>();
+  players.forEach(p => {
+    const position = getRosterPosition(p.position);
+    const level = position ? levels.get(position) : undefined;
+    if (level !== undefined && p.projectedPoints !== undefined && !values.has(p.id)) {
+      values.set(p.id, p.projectedPoints - level);
+    }
+  });
+  return values;
+};
+
+// Players ordered by value over replacement, best first. Players without a value keep
+// their source order after everyone who has one. Ranks are left as they are, so picks
+// and highlights still point at the same players.
+export const rankByValue = (players: Player[], values: Map<string, number>): Player[] => {
+  const valued = players.filter(p => values.has(p.id)).sort((a, b) => values.get(b.id)! - values.get(a.id)! || a.rank - b.rank);
+  const unvalued = players.filter(p => !values.has(p.id));
+  return [...valued, ...unvalued];
+};